@@ -0,0 +1,52 @@
+// Determinism check for the headless proliferation engine: every registered
+// program, run twice from the same seed on the default layout, must produce
+// the same grid on every tick and reach its end. Run it with:
+//
+//   npm test
+//
+// Exits non-zero and lists the programs that failed.
+import { ProliferationEngine } from '../src/app/installations/proliferation/engine';
+import { getProgramDefinitions } from '../src/app/installations/proliferation/programs';
+import { computeGridLayout } from '../src/app/installations/proliferation/rendering/layout';
+
+const SEED = 1;
+const WIDTH = 1920; // The gallery's landscape monitor
+const HEIGHT = 1080;
+const MAX_TICKS = 20000; // Programs that haven't finished by then count as never finishing
+
+const layout = computeGridLayout(WIDTH, HEIGHT);
+
+// One program step per tick, until the program finishes (or MAX_TICKS): the grid after every tick
+function record(program: string): string[] {
+  const engine = new ProliferationEngine({
+    rows: layout.rows, cols: layout.cols, topology: layout.topology,
+    seed: SEED, stepsPerSecond: 1, tickRate: 1, programs: [program],
+  });
+  const frames = [engine.snapshot().join('|')];
+  while (!engine.isFreezing() && frames.length <= MAX_TICKS) {
+    engine.step();
+    frames.push(engine.snapshot().join('|'));
+  }
+  return frames;
+}
+
+const failures: string[] = [];
+for (const { name } of getProgramDefinitions()) {
+  const first = record(name);
+  const second = record(name);
+  const diverged = first.findIndex((frame, tick) => frame !== second[tick]);
+
+  if (first.length > MAX_TICKS) {
+    failures.push(`${name} didn't finish within ${MAX_TICKS} ticks`);
+  } else if (diverged !== -1 || first.length !== second.length) {
+    failures.push(`${name} diverged at tick ${diverged === -1 ? Math.min(first.length, second.length) : diverged}`);
+  } else {
+    console.log(`✅ ${name}: ${first.length - 1} ticks`);
+  }
+}
+
+console.log(`${layout.rows}x${layout.cols} grid, seed ${SEED}`);
+if (failures.length > 0) {
+  failures.forEach(failure => console.error(`❌ ${failure}`));
+  process.exit(1);
+}
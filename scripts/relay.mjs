@@ -0,0 +1,138 @@
+// WebSocket relay: every message a client sends is passed on to all the
+// others. It links the screens of a video wall spread over several machines,
+// and the installations to the /control page. No dependencies - run it on any
+// machine the screens can reach:
+//
+//   npm run wall-relay            (port 8787) then open each wall screen with ?relay=ws://<that machine>:8787
+//   npm run remote-relay          (port 8788) then open each installation with ?remote=ws://<that machine>:8788
+//   node scripts/relay.mjs 9000
+//
+// See the README for both.
+import { createHash } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const PORT = Number(process.argv[2] ?? process.env.RELAY_PORT ?? 8787);
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 16 * 1024 * 1024; // Bytes - a full grid of 200x200 cells is well under this
+
+const clients = new Set();
+
+// One unmasked frame, as servers send them
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN + opcode
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Splits the bytes received so far into frames; returns the ones complete and the bytes left over
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE) throw new Error(`Frame of ${length} bytes is too large`);
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(cursor + maskLength, cursor + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(cursor, cursor + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ fin, opcode, payload });
+    offset = cursor + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function relay(sender, message) {
+  const frame = encodeFrame(0x1, message);
+  for (const client of clients) {
+    if (client !== sender && !client.destroyed) client.write(frame);
+  }
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { 'Content-Type': 'text/plain' });
+  response.end('Brick Journey relay - connect with a WebSocket\n');
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n',
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  clients.add(socket);
+  console.log(`🔌 Client connected from ${socket.remoteAddress} (${clients.size} connected)`);
+
+  let pending = Buffer.alloc(0);
+  let fragments = []; // Payloads of a message split over several frames
+  socket.on('data', chunk => {
+    try {
+      const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+      pending = rest;
+      for (const { fin, opcode, payload } of frames) {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+          return;
+        }
+        if (opcode === 0x9) {
+          socket.write(encodeFrame(0xa, payload)); // Pong
+          continue;
+        }
+        if (opcode !== 0x0 && opcode !== 0x1) continue; // Only text messages are relayed
+        fragments.push(payload);
+        if (!fin) continue;
+        relay(socket, Buffer.concat(fragments));
+        fragments = [];
+      }
+    } catch (error) {
+      console.warn(`Dropping ${socket.remoteAddress}: ${error.message}`);
+      socket.destroy();
+    }
+  });
+
+  const forget = () => {
+    if (!clients.delete(socket)) return;
+    console.log(`Client at ${socket.remoteAddress} left (${clients.size} connected)`);
+  };
+  socket.on('close', forget);
+  socket.on('error', forget);
+});
+
+server.listen(PORT, () => {
+  console.log(`🧱 Relay listening on ws://0.0.0.0:${PORT}`);
+});
@@ -0,0 +1,112 @@
+'use client';
+
+import React from 'react';
+import type { InstallationKind, InstallationStatus, RemoteCommand } from '../../remote';
+
+export const INSTALLATION_TITLES: Record<InstallationKind, string> = {
+  proliferation: 'Brick Proliferates',
+  holdspiral: 'Hold Spiral',
+  lens: 'Lens',
+};
+
+const selectClassName =
+  'bg-gray-800 text-gray-200 text-xs rounded px-2 py-1 border border-amber-700 border-opacity-30 focus:outline-none focus:border-amber-500';
+const buttonClassName =
+  'px-3 py-1 text-xs rounded bg-gray-800 text-gray-200 hover:bg-amber-800 hover:text-amber-100 transition-colors duration-200 disabled:opacity-40';
+const activeButtonClassName = 'px-3 py-1 text-xs rounded bg-amber-700 text-amber-50';
+
+interface InstallationCardProps {
+  status: InstallationStatus;
+  onCommand: (command: RemoteCommand) => void;
+}
+
+/**
+ * One connected installation on the control page, with the controls its kind understands
+ */
+const InstallationCard: React.FC<InstallationCardProps> = ({ status, onCommand }) => {
+  const { state } = status;
+
+  return (
+    <div className="p-4 bg-gray-900 rounded-lg border border-gray-800 space-y-3">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-gray-100">{status.name || status.id}</h3>
+          <div className="text-xs text-gray-500">{INSTALLATION_TITLES[state.installation]}</div>
+        </div>
+        <button onClick={() => onCommand({ type: 'reload' })} className={buttonClassName}>
+          Reload
+        </button>
+      </div>
+
+      {state.installation === 'proliferation' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={state.program ?? ''}
+            onChange={event => onCommand({ type: 'selectProgram', program: event.target.value })}
+            className={selectClassName}
+            aria-label="Program"
+          >
+            {state.program === null && <option value="">Loading...</option>}
+            {state.programs.map(program => (
+              <option key={program} value={program}>{program}</option>
+            ))}
+          </select>
+          <select
+            value={state.colorMode ?? ''}
+            onChange={event => onCommand({ type: 'setColorMode', colorMode: event.target.value })}
+            className={selectClassName}
+            aria-label="Color mode"
+          >
+            {state.colorMode === null && <option value="">Loading...</option>}
+            {state.colorModes.map(mode => (
+              <option key={mode.id} value={mode.id}>{mode.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {state.installation === 'holdspiral' && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onCommand({ type: 'setInside', inside: false })}
+            className={state.inside ? buttonClassName : activeButtonClassName}
+          >
+            Outside
+          </button>
+          <button
+            onClick={() => onCommand({ type: 'setInside', inside: true })}
+            className={state.inside ? activeButtonClassName : buttonClassName}
+          >
+            Inside
+          </button>
+        </div>
+      )}
+
+      {state.installation === 'lens' && (
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onCommand({ type: 'stepVariation', step: -1 })}
+            disabled={state.variations === 0}
+            className={buttonClassName}
+            aria-label="Previous variation"
+          >
+            ◀
+          </button>
+          <span className="text-xs font-mono text-gray-300">
+            {state.variations === 0 ? '--/--' : `${state.variation + 1}/${state.variations}`}
+          </span>
+          <button
+            onClick={() => onCommand({ type: 'stepVariation', step: 1 })}
+            disabled={state.variations === 0}
+            className={buttonClassName}
+            aria-label="Next variation"
+          >
+            ▶
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstallationCard;
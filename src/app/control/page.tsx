@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import InstallationCard, { INSTALLATION_TITLES } from './components/InstallationCard';
+import { REMOTE_PROTOCOL_VERSION, REMOTE_RELAY_PORT, RemoteSocket, STATUS_TIMEOUT } from '../remote';
+import type { InstallationStatus, RemoteCommand } from '../remote';
+
+interface SeenInstallation extends InstallationStatus {
+  seen: number; // Date.now() of its last status report
+}
+
+/**
+ * Operator page: lists the installations connected to the remote control relay
+ * and sends them commands. Open it as /control, or /control?relay=ws://<relay>:8788
+ * when the relay isn't on the machine serving this page.
+ */
+export default function ControlPage() {
+  const [relay, setRelay] = useState('');
+  const [draft, setDraft] = useState('');
+  const [connected, setConnected] = useState(false);
+  const [installations, setInstallations] = useState<Map<string, SeenInstallation>>(new Map());
+  const socketRef = useRef<RemoteSocket | null>(null);
+
+  // The relay from the URL, or the remote relay's port on this page's host
+  useEffect(() => {
+    const url = new URLSearchParams(window.location.search).get('relay') ?? `ws://${window.location.hostname}:${REMOTE_RELAY_PORT}`;
+    setRelay(url);
+    setDraft(url);
+  }, []);
+
+  useEffect(() => {
+    if (!relay) return;
+    const socket = new RemoteSocket(relay);
+    socketRef.current = socket;
+    socket.onConnectionChange = isConnected => {
+      setConnected(isConnected);
+      if (isConnected) socket.send({ type: 'discover' });
+    };
+    socket.onMessage = message => {
+      if (message.type === 'status') {
+        setInstallations(previous => new Map(previous).set(message.status.id, { ...message.status, seen: Date.now() }));
+      } else if (message.type === 'leave') {
+        setInstallations(previous => {
+          const next = new Map(previous);
+          next.delete(message.id);
+          return next;
+        });
+      }
+    };
+
+    // Installations that stopped reporting have closed, crashed or lost the network
+    const timer = setInterval(() => {
+      const now = Date.now();
+      setInstallations(previous => {
+        const stale = [...previous.values()].filter(installation => now - installation.seen > STATUS_TIMEOUT);
+        if (stale.length === 0) return previous;
+        const next = new Map(previous);
+        stale.forEach(installation => next.delete(installation.id));
+        return next;
+      });
+    }, 1000);
+
+    return () => {
+      clearInterval(timer);
+      socket.close();
+      socketRef.current = null;
+      setConnected(false);
+      setInstallations(new Map());
+    };
+  }, [relay]);
+
+  const sendCommand = useCallback((target: string | null, command: RemoteCommand) => {
+    socketRef.current?.send({ type: 'command', target, command });
+  }, []);
+
+  const reloadAll = () => {
+    if (window.confirm(`Reload all ${installations.size} installations?`)) sendCommand(null, { type: 'reload' });
+  };
+
+  // Grouped by installation, then by name
+  const sorted = useMemo(() => [...installations.values()].sort((a, b) =>
+    a.state.installation.localeCompare(b.state.installation) || (a.name || a.id).localeCompare(b.name || b.id)
+  ), [installations]);
+
+  return (
+    <div className="min-h-screen bg-black text-gray-200 px-6 py-20">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-end justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-white">Control</h1>
+            <div className="text-xs text-gray-500">
+              Remote control of the installations - protocol v{REMOTE_PROTOCOL_VERSION}
+            </div>
+          </div>
+          <button
+            onClick={reloadAll}
+            disabled={installations.size === 0}
+            className="px-3 py-1 text-xs rounded bg-red-900 text-red-100 hover:bg-red-800 transition-colors duration-200 disabled:opacity-40"
+          >
+            Reload all
+          </button>
+        </div>
+
+        <form
+          onSubmit={event => {
+            event.preventDefault();
+            setRelay(draft.trim());
+          }}
+          className="flex items-center gap-2"
+        >
+          <span className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`} />
+          <input
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            className="flex-1 bg-gray-900 text-gray-200 text-xs font-mono rounded px-2 py-1 border border-gray-700 focus:outline-none focus:border-amber-500"
+            aria-label="Relay address"
+          />
+          <button type="submit" className="px-3 py-1 text-xs rounded bg-gray-800 text-gray-200 hover:bg-amber-800 hover:text-amber-100">
+            Connect
+          </button>
+        </form>
+
+        {!connected && relay && (
+          <div className="text-xs text-gray-400">
+            Waiting for the relay at {relay} - start it with <code className="text-amber-300">npm run remote-relay</code>
+          </div>
+        )}
+
+        {connected && sorted.length === 0 && (
+          <div className="text-xs text-gray-400">
+            No installations yet - open them with <code className="text-amber-300">?remote={relay}</code> (and a name, e.g. <code className="text-amber-300">&amp;kiosk=lobby</code>)
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {sorted.map(installation => (
+            <InstallationCard
+              key={installation.id}
+              status={installation}
+              onCommand={command => sendCommand(installation.id, command)}
+            />
+          ))}
+        </div>
+
+        {sorted.length > 0 && (
+          <div className="text-xs text-gray-600">
+            {Object.entries(INSTALLATION_TITLES)
+              .map(([kind, title]) => `${sorted.filter(installation => installation.state.installation === kind).length} ${title}`)
+              .join(' · ')}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,22 @@
 'use client'
 
-import React, { Suspense, useRef, useState } from 'react'
+import React, { Suspense, useCallback, useMemo, useRef, useState } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls } from '@react-three/drei'
 import { Vector3 } from 'three'
 import type { OrbitControls as OrbitControlsImpl } from 'three-stdlib'
 import SpiralGroup from './SpiralGroup'
 import { GitHubRepoConfig } from '../utils/githubImageFetcher'
+import { useRemoteControl } from '../../../remote'
+import type { InstallationState, RemoteCommand } from '../../../remote'
+
+// Define camera positions for more dramatic effect (outside the component, so every render shares them)
+const outsidePosition = new Vector3(0, 2, 16) // Slightly elevated and further back
+const insidePosition = new Vector3(0, 0, 0) // Inside the spiral center
+
+// Define target positions for orbit controls
+const outsideTarget = new Vector3(0, 0, 0)
+const insideTarget = new Vector3(0, 0, 0) // Look slightly upward when inside
 
 // Camera controller component
 function CameraController({ isInside, setIsInside }: { isInside: boolean; setIsInside: (inside: boolean) => void }) {
@@ -14,16 +24,9 @@ function CameraController({ isInside, setIsInside }: { isInside: boolean; setIsI
   const targetPosition = useRef(new Vector3())
   const currentPosition = useRef(new Vector3())
   const isTransitioning = useRef(false)
+  const shownInside = useRef(isInside) // The view the camera is at or heading to
   const orbitControlsRef = useRef<OrbitControlsImpl | null>(null)
   
-  // Define camera positions for more dramatic effect
-  const outsidePosition = new Vector3(0, 2, 16) // Slightly elevated and further back
-  const insidePosition = new Vector3(0, 0, 0) // Inside the spiral center
-  
-  // Define target positions for orbit controls
-  const outsideTarget = new Vector3(0, 0, 0)
-  const insideTarget = new Vector3(0, 0, 0) // Look slightly upward when inside
-  
   // Set initial positions
   React.useEffect(() => {
     currentPosition.current.copy(camera.position)
@@ -53,31 +56,7 @@ function CameraController({ isInside, setIsInside }: { isInside: boolean; setIsI
     const handleMouseUp = () => {
       if (isMouseDown && mouseMovedDistance < 5 && !isTransitioning.current) {
         // Only toggle if it was a click (not drag) and not transitioning
-        isTransitioning.current = true
-        const newIsInside = !isInside
-        setIsInside(newIsInside)
-        
-        // Set new target position
-        targetPosition.current.copy(newIsInside ? insidePosition : outsidePosition)
-        
-        // Immediately update orbit controls target and settings
-        if (orbitControlsRef.current) {
-          orbitControlsRef.current.enabled = false
-          
-          // Update target immediately
-          const newTarget = newIsInside ? insideTarget : outsideTarget
-          orbitControlsRef.current.target.copy(newTarget)
-          orbitControlsRef.current.update()
-        }
-        
-        // Reset transition flag and re-enable controls after animation
-        setTimeout(() => {
-          isTransitioning.current = false
-          if (orbitControlsRef.current) {
-            orbitControlsRef.current.enabled = true
-            orbitControlsRef.current.update()
-          }
-        }, 2000)
+        setIsInside(!isInside)
       }
       isMouseDown = false
     }
@@ -93,6 +72,36 @@ function CameraController({ isInside, setIsInside }: { isInside: boolean; setIsI
     }
   }, [isInside, setIsInside, gl])
   
+  // Move the camera whenever the view changes - from a click or from the control page
+  React.useEffect(() => {
+    if (isInside === shownInside.current) return
+    shownInside.current = isInside
+    isTransitioning.current = true
+    
+    // Set new target position
+    targetPosition.current.copy(isInside ? insidePosition : outsidePosition)
+    
+    // Immediately update orbit controls target and settings
+    if (orbitControlsRef.current) {
+      orbitControlsRef.current.enabled = false
+      
+      // Update target immediately
+      const newTarget = isInside ? insideTarget : outsideTarget
+      orbitControlsRef.current.target.copy(newTarget)
+      orbitControlsRef.current.update()
+    }
+    
+    // Reset transition flag and re-enable controls after animation
+    const timer = setTimeout(() => {
+      isTransitioning.current = false
+      if (orbitControlsRef.current) {
+        orbitControlsRef.current.enabled = true
+        orbitControlsRef.current.update()
+      }
+    }, 2000)
+    return () => clearTimeout(timer)
+  }, [isInside])
+  
   // Smooth camera animation during transitions
   useFrame(() => {
     if (isTransitioning.current && orbitControlsRef.current) {
@@ -138,6 +147,13 @@ export default function HoldSpiralScene({
 }: HoldSpiralSceneProps = {}) {
   const [isInside, setIsInside] = useState(false)
   
+  // Remote control from the /control page, when ?remote= names a relay
+  const remoteState = useMemo<InstallationState>(() => ({ installation: 'holdspiral', inside: isInside }), [isInside])
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    if (command.type === 'setInside') setIsInside(command.inside)
+  }, [])
+  useRemoteControl(remoteState, handleRemoteCommand)
+  
   console.log('🎬 HoldSpiralScene render:', { 
     hasGithubConfig: !!githubConfig, 
     githubConfig, 
@@ -1,8 +1,10 @@
 'use client'
 
-import React, { useState, useEffect, useCallback, useRef } from 'react'
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import CameraFrame from './CameraFrame'
 import { GitHubRepoConfig, GitHubImageFetcher, GitHubImage } from '../../holdspiral/utils/githubImageFetcher'
+import { useRemoteControl } from '../../../remote'
+import type { InstallationState, RemoteCommand } from '../../../remote'
 
 interface LensViewerProps {
   githubConfig: GitHubRepoConfig
@@ -69,6 +71,19 @@ export default function LensViewer({ githubConfig, onLoadingChange }: LensViewer
     }
   }, [images.length, currentIndex])
 
+  // Remote control from the /control page, when ?remote= names a relay
+  const remoteState = useMemo<InstallationState>(() => ({
+    installation: 'lens',
+    variation: currentIndex,
+    variations: images.length
+  }), [currentIndex, images.length])
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    if (command.type === 'stepVariation' && images.length > 0) {
+      setCurrentIndex((prevIndex) => (((prevIndex + command.step) % images.length) + images.length) % images.length)
+    }
+  }, [images.length])
+  useRemoteControl(remoteState, handleRemoteCommand)
+
   const currentImage = images[currentIndex]
 
   if (error) {
@@ -0,0 +1,6 @@
+export { BOND_TYPES, layBricks } from './patterns';
+export type { BondType, BrickRect } from './patterns';
+export { BondTopology, CroppedTopology, MatrixTopology, cropTopology } from './topology';
+export type { Brick, GridTopology, TopologyRegion } from './topology';
+export { neighbourOffsets, neighbourPositions } from './neighbourhood';
+export type { EdgeMode, Neighbourhood } from './neighbourhood';
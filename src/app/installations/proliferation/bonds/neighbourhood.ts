@@ -0,0 +1,47 @@
+import type { GridPosition } from '../paths';
+
+export type Neighbourhood = 'moore' | 'vonNeumann';
+export type EdgeMode = 'wrap' | 'clamp';
+
+// Moore: all eight surrounding cells. Von Neumann: the four orthogonal ones.
+const MOORE_OFFSETS = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1], [0, 1],
+  [1, -1], [1, 0], [1, 1],
+];
+const VON_NEUMANN_OFFSETS = [[-1, 0], [0, -1], [0, 1], [1, 0]];
+
+export function neighbourOffsets(neighbourhood: Neighbourhood): number[][] {
+  return neighbourhood === 'moore' ? MOORE_OFFSETS : VON_NEUMANN_OFFSETS;
+}
+
+/**
+ * Positions of a cell's neighbours. "wrap" treats the grid as a torus;
+ * "clamp" repeats the edge cells outward (a cell never counts itself).
+ */
+export function neighbourPositions(
+  rows: number,
+  cols: number,
+  row: number,
+  col: number,
+  neighbourhood: Neighbourhood,
+  edges: EdgeMode
+): GridPosition[] {
+  const positions: GridPosition[] = [];
+
+  for (const [dr, dc] of neighbourOffsets(neighbourhood)) {
+    let r = row + dr;
+    let c = col + dc;
+    if (edges === 'wrap') {
+      r = (r + rows) % rows;
+      c = (c + cols) % cols;
+    } else {
+      r = Math.min(rows - 1, Math.max(0, r));
+      c = Math.min(cols - 1, Math.max(0, c));
+    }
+    if (r === row && c === col) continue;
+    positions.push({ r, c });
+  }
+  return positions;
+}
+
@@ -0,0 +1,111 @@
+// --- Masonry bonds ---
+// How bricks are laid in the wall. "grid" is the original matrix of cells with
+// the zigzag offset; every other bond lays real bricks in wall units, where a
+// course is 1 unit tall, a stretcher (long face) 2 units and a header (end) 1 unit.
+
+export type BondType = 'grid' | 'running' | 'english' | 'flemish' | 'herringbone' | 'basketWeave';
+
+export const BOND_TYPES: BondType[] = ['grid', 'running', 'english', 'flemish', 'herringbone', 'basketWeave'];
+
+// A brick's rectangle in wall units - vertical bricks are taller than they are wide
+export interface BrickRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+const STRETCHER = 2;
+const HEADER = 1;
+
+// Lay one course left to right from x0, repeating the given brick lengths
+function layCourse(bricks: BrickRect[], y: number, x0: number, lengths: number[], width: number) {
+  let x = x0;
+  for (let i = 0; x < width; i++) {
+    const w = lengths[i % lengths.length];
+    bricks.push({ x, y, w, h: 1 });
+    x += w;
+  }
+}
+
+// Stretchers only, each course shifted by half a brick
+function runningBond(width: number, height: number): BrickRect[] {
+  const bricks: BrickRect[] = [];
+  for (let course = 0; course < height; course++) {
+    layCourse(bricks, course, course % 2 === 0 ? 0 : -STRETCHER / 2, [STRETCHER], width);
+  }
+  return bricks;
+}
+
+// Alternate courses of stretchers and headers, headers centred on the stretcher joints
+function englishBond(width: number, height: number): BrickRect[] {
+  const bricks: BrickRect[] = [];
+  for (let course = 0; course < height; course++) {
+    if (course % 2 === 0) {
+      layCourse(bricks, course, 0, [STRETCHER], width);
+    } else {
+      layCourse(bricks, course, -HEADER / 2, [HEADER], width);
+    }
+  }
+  return bricks;
+}
+
+// Stretcher and header alternate in every course, each header centred on the stretcher below
+function flemishBond(width: number, height: number): BrickRect[] {
+  const bricks: BrickRect[] = [];
+  for (let course = 0; course < height; course++) {
+    layCourse(bricks, course, course % 2 === 0 ? 0 : -(STRETCHER + HEADER) / 2, [STRETCHER, HEADER], width);
+  }
+  return bricks;
+}
+
+// 90° herringbone: a horizontal and a vertical brick per step down the diagonal,
+// and the diagonal band repeats every 4 units down the wall
+function herringboneBond(width: number, height: number): BrickRect[] {
+  const bricks: BrickRect[] = [];
+  const band = 2 * STRETCHER;
+  for (let i = -1; i < width; i++) {
+    // Bands that reach the wall at column i
+    const first = Math.floor((-i - 3) / band) * band;
+    for (let shift = first; i + shift < height; shift += band) {
+      bricks.push({ x: i, y: i + shift, w: STRETCHER, h: 1 });
+      bricks.push({ x: i, y: i + shift + 1, w: 1, h: STRETCHER });
+    }
+  }
+  return bricks;
+}
+
+// 2x2 squares of two parallel bricks, turning 90° from square to square
+function basketWeaveBond(width: number, height: number): BrickRect[] {
+  const bricks: BrickRect[] = [];
+  for (let by = 0; by * STRETCHER < height; by++) {
+    for (let bx = 0; bx * STRETCHER < width; bx++) {
+      const x = bx * STRETCHER;
+      const y = by * STRETCHER;
+      if ((bx + by) % 2 === 0) {
+        bricks.push({ x, y, w: STRETCHER, h: 1 }, { x, y: y + 1, w: STRETCHER, h: 1 });
+      } else {
+        bricks.push({ x, y, w: 1, h: STRETCHER }, { x: x + 1, y, w: 1, h: STRETCHER });
+      }
+    }
+  }
+  return bricks;
+}
+
+const BOND_PATTERNS: Record<Exclude<BondType, 'grid'>, (width: number, height: number) => BrickRect[]> = {
+  running: runningBond,
+  english: englishBond,
+  flemish: flemishBond,
+  herringbone: herringboneBond,
+  basketWeave: basketWeaveBond,
+};
+
+/**
+ * Every brick of the bond that shows in a wall of the given size (in units).
+ * Bricks cut by the wall's edge are kept whole - the canvas clips them.
+ */
+export function layBricks(bond: Exclude<BondType, 'grid'>, width: number, height: number): BrickRect[] {
+  return BOND_PATTERNS[bond](width, height).filter(brick =>
+    brick.x < width && brick.x + brick.w > 0 && brick.y < height && brick.y + brick.h > 0
+  );
+}
@@ -0,0 +1,444 @@
+import {
+  antiDiagonalPath,
+  columnPath,
+  diagonalPath,
+  linePath,
+  radiationPath,
+  resolveCenter,
+  rowPath,
+  spiralPath,
+} from '../paths';
+import type { GridPosition } from '../paths';
+import { neighbourPositions } from './neighbourhood';
+import type { EdgeMode, Neighbourhood } from './neighbourhood';
+import type { BrickRect } from './patterns';
+
+/**
+ * The shape of the wall a program runs on. Programs still read and write a
+ * rows x cols matrix, but ask the topology which cells are bricks, which
+ * bricks touch, and which bricks each sweep visits.
+ */
+export interface GridTopology {
+  readonly rows: number;
+  readonly cols: number;
+  has(row: number, col: number): boolean; // False for matrix cells with no brick behind them
+  neighbours(row: number, col: number, neighbourhood: Neighbourhood, edges: EdgeMode): GridPosition[];
+  resolveCenter(row: number, col: number, offset?: [number, number]): GridPosition; // Negative row/col = the wall centre
+  rowPath(): GridPosition[][];
+  columnPath(): GridPosition[][];
+  diagonalPath(): GridPosition[][];
+  antiDiagonalPath(): GridPosition[][];
+  spiralPath(center: GridPosition): GridPosition[][];
+  radiationPath(center: GridPosition, numRays: number): GridPosition[][];
+  linePath(center: GridPosition, angle: number): GridPosition[]; // Cells a straight line through the centre crosses
+}
+
+/**
+ * The original layout: every matrix cell is a brick and the paths are the ones in paths.ts
+ */
+export class MatrixTopology implements GridTopology {
+  readonly rows: number;
+  readonly cols: number;
+
+  constructor(rows: number, cols: number) {
+    this.rows = rows;
+    this.cols = cols;
+  }
+
+  has(row: number, col: number): boolean {
+    return row >= 0 && row < this.rows && col >= 0 && col < this.cols;
+  }
+
+  neighbours(row: number, col: number, neighbourhood: Neighbourhood, edges: EdgeMode): GridPosition[] {
+    return neighbourPositions(this.rows, this.cols, row, col, neighbourhood, edges);
+  }
+
+  resolveCenter(row: number, col: number, offset: [number, number] = [0, 0]): GridPosition {
+    return resolveCenter(this.rows, this.cols, row, col, offset);
+  }
+
+  rowPath(): GridPosition[][] {
+    return rowPath(this.rows, this.cols);
+  }
+
+  columnPath(): GridPosition[][] {
+    return columnPath(this.rows, this.cols);
+  }
+
+  diagonalPath(): GridPosition[][] {
+    return diagonalPath(this.rows, this.cols);
+  }
+
+  antiDiagonalPath(): GridPosition[][] {
+    return antiDiagonalPath(this.rows, this.cols);
+  }
+
+  spiralPath(center: GridPosition): GridPosition[][] {
+    return spiralPath(this.rows, this.cols, center);
+  }
+
+  radiationPath(center: GridPosition, numRays: number): GridPosition[][] {
+    return radiationPath(this.rows, this.cols, center, numRays);
+  }
+
+  linePath(center: GridPosition, angle: number): GridPosition[] {
+    return linePath(this.rows, this.cols, center, angle);
+  }
+}
+
+// A rectangle of a topology's matrix, in cells
+export interface TopologyRegion {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+}
+
+/**
+ * Part of another topology, as a grid of its own for a combinator's child:
+ * (0, 0) is the region's top left cell. Only the parent's bricks inside the
+ * region (and accepted by include, if given) are bricks here; neighbours and
+ * paths are the parent's, cut to them.
+ */
+export class CroppedTopology implements GridTopology {
+  readonly rows: number;
+  readonly cols: number;
+  private parent: GridTopology;
+  private region: TopologyRegion;
+  private include?: (row: number, col: number) => boolean; // In the parent's cells
+
+  constructor(parent: GridTopology, region: TopologyRegion, include?: (row: number, col: number) => boolean) {
+    this.parent = parent;
+    this.region = region;
+    this.rows = region.rows;
+    this.cols = region.cols;
+    this.include = include;
+  }
+
+  // Whether a parent cell is one of this topology's bricks
+  private contains(row: number, col: number): boolean {
+    const { region } = this;
+    return row >= region.row && row < region.row + region.rows
+      && col >= region.col && col < region.col + region.cols
+      && this.parent.has(row, col)
+      && (this.include?.(row, col) ?? true);
+  }
+
+  private toParent(position: GridPosition): GridPosition {
+    return { r: position.r + this.region.row, c: position.c + this.region.col };
+  }
+
+  private cropLine(line: GridPosition[]): GridPosition[] {
+    return line
+      .filter(position => this.contains(position.r, position.c))
+      .map(position => ({ r: position.r - this.region.row, c: position.c - this.region.col }));
+  }
+
+  private cropLines(lines: GridPosition[][]): GridPosition[][] {
+    return lines.map(line => this.cropLine(line)).filter(line => line.length > 0);
+  }
+
+  has(row: number, col: number): boolean {
+    return this.contains(row + this.region.row, col + this.region.col);
+  }
+
+  neighbours(row: number, col: number, neighbourhood: Neighbourhood, edges: EdgeMode): GridPosition[] {
+    if (!this.has(row, col)) return [];
+    const { r, c } = this.toParent({ r: row, c: col });
+    return this.cropLine(this.parent.neighbours(r, c, neighbourhood, edges));
+  }
+
+  resolveCenter(row: number, col: number, offset: [number, number] = [0, 0]): GridPosition {
+    const target = resolveCenter(this.rows, this.cols, row, col, offset);
+    if (this.has(target.r, target.c)) return target;
+
+    // The region's brick nearest the cell asked for
+    let nearest = target;
+    let best = Infinity;
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        const distance = (r - target.r) ** 2 + (c - target.c) ** 2;
+        if (distance < best && this.has(r, c)) {
+          best = distance;
+          nearest = { r, c };
+        }
+      }
+    }
+    return nearest;
+  }
+
+  rowPath(): GridPosition[][] {
+    return this.cropLines(this.parent.rowPath());
+  }
+
+  columnPath(): GridPosition[][] {
+    return this.cropLines(this.parent.columnPath());
+  }
+
+  diagonalPath(): GridPosition[][] {
+    return this.cropLines(this.parent.diagonalPath());
+  }
+
+  antiDiagonalPath(): GridPosition[][] {
+    return this.cropLines(this.parent.antiDiagonalPath());
+  }
+
+  spiralPath(center: GridPosition): GridPosition[][] {
+    return this.cropLines(this.parent.spiralPath(this.toParent(center)));
+  }
+
+  radiationPath(center: GridPosition, numRays: number): GridPosition[][] {
+    // Rays stay in place even when empty, so ray i still points the same way
+    return this.parent.radiationPath(this.toParent(center), numRays).map(ray => this.cropLine(ray));
+  }
+
+  linePath(center: GridPosition, angle: number): GridPosition[] {
+    return this.cropLine(this.parent.linePath(this.toParent(center), angle));
+  }
+}
+
+/**
+ * The topology a combinator's child sees for a region of the wall. A plain
+ * grid stays a plain grid of the region's size (so wrapping automata wrap
+ * within it); a bond is cropped to its bricks in the region.
+ */
+export function cropTopology(
+  parent: GridTopology,
+  region: TopologyRegion,
+  include?: (row: number, col: number) => boolean
+): GridTopology {
+  if (parent instanceof MatrixTopology && !include) return new MatrixTopology(region.rows, region.cols);
+  return new CroppedTopology(parent, region, include);
+}
+
+// A laid brick and the matrix cell that holds its state
+export interface Brick extends BrickRect, GridPosition {}
+
+const EPSILON = 1e-6;
+const BRICK_LENGTH = 2; // Sweeps step one stretcher across for every course down
+
+const centerX = (brick: BrickRect) => brick.x + brick.w / 2;
+const centerY = (brick: BrickRect) => brick.y + brick.h / 2;
+
+// Group bricks into lines by key, lines in key order and bricks top to bottom
+function groupLines(bricks: Brick[], key: (brick: Brick) => number, descending: boolean = false): GridPosition[][] {
+  const lines: Map<number, Brick[]> = new Map();
+  for (const brick of bricks) {
+    const k = key(brick);
+    if (!lines.has(k)) lines.set(k, []);
+    lines.get(k)!.push(brick);
+  }
+  return Array.from(lines.entries())
+    .sort(([a], [b]) => (descending ? b - a : a - b))
+    .map(([, line]) => line
+      .sort((a, b) => centerY(a) - centerY(b) || centerX(a) - centerX(b))
+      .map(brick => ({ r: brick.r, c: brick.c })));
+}
+
+/**
+ * A wall of real bricks (see patterns.ts). Each course of brick centres is a
+ * matrix row and bricks are numbered left to right along it, so rows can be
+ * shorter than cols - the cells past a row's last brick are holes.
+ * Neighbours are the bricks that actually touch: sharing part of an edge for
+ * von Neumann, or even a corner for Moore. The wall edge is always open.
+ */
+export class BondTopology implements GridTopology {
+  readonly rows: number;
+  readonly cols: number;
+  readonly width: number; // Wall size in units
+  readonly height: number;
+  readonly bricks: Brick[];
+
+  private cells: (Brick | null)[][];
+  private buckets: Map<string, Brick[]> = new Map(); // Bricks overlapping each unit square
+  private edgeNeighbours: Map<Brick, Brick[]> = new Map();
+  private touchingNeighbours: Map<Brick, Brick[]> = new Map();
+
+  constructor(rects: BrickRect[], width: number, height: number) {
+    this.width = width;
+    this.height = height;
+
+    // Rows by the course each brick's centre sits in, numbered from the topmost
+    const firstRow = rects.length > 0 ? Math.min(...rects.map(rect => Math.floor(centerY(rect) + EPSILON))) : 0;
+    const rowsOfRects: BrickRect[][] = [];
+    for (const rect of rects) {
+      const r = Math.floor(centerY(rect) + EPSILON) - firstRow;
+      (rowsOfRects[r] ??= []).push(rect);
+    }
+
+    this.bricks = [];
+    this.cells = [];
+    for (let r = 0; r < rowsOfRects.length; r++) {
+      const row = (rowsOfRects[r] ?? []).sort((a, b) => centerX(a) - centerX(b));
+      this.cells.push(row.map((rect, c) => {
+        const brick: Brick = { ...rect, r, c };
+        this.bricks.push(brick);
+        return brick;
+      }));
+    }
+    this.rows = this.cells.length;
+    this.cols = Math.max(0, ...this.cells.map(row => row.length));
+
+    for (const brick of this.bricks) {
+      for (const key of this.bucketKeys(brick.x, brick.y, brick.x + brick.w, brick.y + brick.h)) {
+        if (!this.buckets.has(key)) this.buckets.set(key, []);
+        this.buckets.get(key)!.push(brick);
+      }
+    }
+    this.findNeighbours();
+  }
+
+  private bucketKeys(x0: number, y0: number, x1: number, y1: number): string[] {
+    const keys: string[] = [];
+    for (let y = Math.floor(y0 + EPSILON); y < y1 - EPSILON; y++) {
+      for (let x = Math.floor(x0 + EPSILON); x < x1 - EPSILON; x++) {
+        keys.push(`${x},${y}`);
+      }
+    }
+    return keys;
+  }
+
+  private findNeighbours() {
+    for (const brick of this.bricks) {
+      const edge: Set<Brick> = new Set();
+      const touching: Set<Brick> = new Set();
+      const nearby = this.bucketKeys(brick.x - 1, brick.y - 1, brick.x + brick.w + 1, brick.y + brick.h + 1);
+      for (const key of nearby) {
+        for (const other of this.buckets.get(key) ?? []) {
+          if (other === brick) continue;
+          // Negative gaps are overlaps along that axis; bricks never overlap on both
+          const gapX = Math.max(brick.x, other.x) - Math.min(brick.x + brick.w, other.x + other.w);
+          const gapY = Math.max(brick.y, other.y) - Math.min(brick.y + brick.h, other.y + other.h);
+          if (gapX > EPSILON || gapY > EPSILON) continue;
+          touching.add(other);
+          if (gapX < -EPSILON || gapY < -EPSILON) edge.add(other);
+        }
+      }
+      this.edgeNeighbours.set(brick, Array.from(edge));
+      this.touchingNeighbours.set(brick, Array.from(touching));
+    }
+  }
+
+  has(row: number, col: number): boolean {
+    return this.cells[row]?.[col] != null;
+  }
+
+  /**
+   * The brick that is cell (row, col) of the grid, or null for a hole
+   */
+  brickFor(row: number, col: number): Brick | null {
+    return this.cells[row]?.[col] ?? null;
+  }
+
+  /**
+   * The brick under a point in wall units, or null between the wall's bricks
+   */
+  brickAt(x: number, y: number): GridPosition | null {
+    for (const brick of this.buckets.get(`${Math.floor(x)},${Math.floor(y)}`) ?? []) {
+      if (x >= brick.x && x < brick.x + brick.w && y >= brick.y && y < brick.y + brick.h) {
+        return { r: brick.r, c: brick.c };
+      }
+    }
+    return null;
+  }
+
+  neighbours(row: number, col: number, neighbourhood: Neighbourhood): GridPosition[] {
+    const brick = this.cells[row]?.[col];
+    if (!brick) return [];
+    const neighbours = neighbourhood === 'moore' ? this.touchingNeighbours : this.edgeNeighbours;
+    return neighbours.get(brick)!.map(other => ({ r: other.r, c: other.c }));
+  }
+
+  // The brick whose centre is closest to a point in wall units
+  private nearestBrick(x: number, y: number): GridPosition {
+    let nearest: Brick | null = null;
+    let best = Infinity;
+    for (const brick of this.bricks) {
+      const distance = (centerX(brick) - x) ** 2 + (centerY(brick) - y) ** 2;
+      if (distance < best) {
+        best = distance;
+        nearest = brick;
+      }
+    }
+    return nearest ? { r: nearest.r, c: nearest.c } : { r: 0, c: 0 };
+  }
+
+  resolveCenter(row: number, col: number, offset: [number, number] = [0, 0]): GridPosition {
+    if (row < 0 || col < 0) {
+      // offset is in courses and bricks, like gridCenter's rows and columns
+      return this.nearestBrick(this.width / 2 + offset[1] * BRICK_LENGTH, this.height / 2 + offset[0]);
+    }
+    const r = Math.min(this.rows - 1, Math.max(0, Math.floor(row)));
+    const length = this.cells[r]?.length ?? 0;
+    if (length === 0) return this.nearestBrick(this.width / 2, r);
+    return { r, c: Math.min(length - 1, Math.max(0, Math.floor(col))) };
+  }
+
+  // Centre of a cell's brick relative to another's, in wall units
+  private offsetFrom(center: GridPosition, brick: Brick): { dx: number; dy: number } {
+    const origin = this.cells[center.r]?.[center.c] ?? brick;
+    return { dx: centerX(brick) - centerX(origin), dy: centerY(brick) - centerY(origin) };
+  }
+
+  rowPath(): GridPosition[][] {
+    return this.cells.map(row => row.map(brick => ({ r: brick!.r, c: brick!.c })));
+  }
+
+  columnPath(): GridPosition[][] {
+    // One brick length wide, so a staggered bond gives a staggered column
+    return groupLines(this.bricks, brick => Math.floor(centerX(brick) / BRICK_LENGTH + EPSILON));
+  }
+
+  diagonalPath(): GridPosition[][] {
+    return groupLines(this.bricks, brick => Math.floor(centerX(brick) / BRICK_LENGTH + centerY(brick) + EPSILON));
+  }
+
+  antiDiagonalPath(): GridPosition[][] {
+    return groupLines(this.bricks, brick => Math.floor(centerX(brick) / BRICK_LENGTH - centerY(brick) + EPSILON), true);
+  }
+
+  spiralPath(center: GridPosition): GridPosition[][] {
+    // Rings of one brick length across and one course down, each swept clockwise from the right
+    const angle = (dx: number, dy: number) => (Math.atan2(dy, dx) + 2 * Math.PI) % (2 * Math.PI);
+    const rings: Map<number, { brick: Brick; angle: number }[]> = new Map();
+    for (const brick of this.bricks) {
+      const { dx, dy } = this.offsetFrom(center, brick);
+      const ring = Math.round(Math.max(Math.abs(dx) / BRICK_LENGTH, Math.abs(dy)));
+      if (!rings.has(ring)) rings.set(ring, []);
+      rings.get(ring)!.push({ brick, angle: angle(dx, dy) });
+    }
+    return Array.from(rings.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([, ring]) => ring.sort((a, b) => a.angle - b.angle).map(({ brick }) => ({ r: brick.r, c: brick.c })));
+  }
+
+  radiationPath(center: GridPosition, numRays: number): GridPosition[][] {
+    const angleStep = (2 * Math.PI) / numRays;
+    const rays: { brick: Brick; distance: number }[][] = Array.from({ length: numRays }, () => []);
+    for (const brick of this.bricks) {
+      const { dx, dy } = this.offsetFrom(center, brick);
+      let angle = Math.atan2(dy, dx);
+      if (angle < 0) angle += 2 * Math.PI;
+      rays[Math.round(angle / angleStep) % numRays].push({ brick, distance: Math.hypot(dx, dy) });
+    }
+    return rays.map(ray => ray.sort((a, b) => a.distance - b.distance).map(({ brick }) => ({ r: brick.r, c: brick.c })));
+  }
+
+  linePath(center: GridPosition, angle: number): GridPosition[] {
+    const origin = this.cells[center.r]?.[center.c];
+    if (!origin) return [];
+    const positions: GridPosition[] = [];
+    const maxDist = Math.hypot(this.width, this.height);
+    const dx = Math.cos(angle);
+    const dy = Math.sin(angle);
+
+    // Walk the line in small steps and collect each brick it enters
+    for (let t = -maxDist; t <= maxDist; t += 0.1) {
+      const pos = this.brickAt(centerX(origin) + t * dx, centerY(origin) + t * dy);
+      if (pos && !positions.some(p => p.r === pos.r && p.c === pos.c)) {
+        positions.push(pos);
+      }
+    }
+    return positions;
+  }
+}
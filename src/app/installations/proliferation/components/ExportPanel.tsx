@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useRef, useState, useSyncExternalStore } from 'react';
+import type { ProliferationController } from '../controller';
+import { downloadExport } from '../export';
+import type { ExportFormat } from '../export';
+import { randomSeed } from '../engine';
+
+interface ExportPanelProps {
+  controller: ProliferationController;
+  onClose: () => void;
+}
+
+const inputClassName =
+  'w-20 bg-gray-800 bg-opacity-80 text-gray-200 text-xs rounded px-2 py-1 border border-amber-700 border-opacity-30 focus:outline-none focus:border-amber-500';
+const buttonClassName =
+  'px-3 py-1 text-xs rounded bg-gray-800 bg-opacity-80 text-gray-200 hover:bg-amber-800 hover:text-amber-100 transition-colors duration-200 disabled:opacity-40';
+
+/**
+ * Archive export: renders the chosen programs offscreen and downloads a WebM or a zip of PNG frames,
+ * or a high-resolution poster PNG of the grid on screen
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ controller, onClose }) => {
+  const state = useSyncExternalStore(controller.subscribe, controller.getState, controller.getState);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [format, setFormat] = useState<ExportFormat>('webm');
+  const [width, setWidth] = useState(1920);
+  const [height, setHeight] = useState(1080);
+  const [fps, setFps] = useState(30);
+  const [seed, setSeed] = useState(() => randomSeed());
+  const [posterWidth, setPosterWidth] = useState(12000);
+  const [posterHeight, setPosterHeight] = useState(9000);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Keep the rotation order, whatever order the boxes were ticked in
+  const programs = state.programs.filter(name => selected.includes(name));
+
+  const toggleProgram = (name: string) => {
+    setSelected(current => (current.includes(name) ? current.filter(n => n !== name) : [...current, name]));
+  };
+
+  const handleExport = async () => {
+    setError(null);
+    abortRef.current = new AbortController();
+    try {
+      const result = await controller.exportRun({
+        programs,
+        format,
+        width,
+        height,
+        fps,
+        seed,
+        speed: state.speed,
+        signal: abortRef.current.signal,
+      });
+      downloadExport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handlePoster = async () => {
+    setError(null);
+    abortRef.current = new AbortController();
+    try {
+      const result = await controller.renderPoster({
+        width: posterWidth,
+        height: posterHeight,
+        signal: abortRef.current.signal,
+      });
+      downloadExport(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Poster failed');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const isBusy = state.exporting !== null || state.poster !== null;
+
+  return (
+    <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 w-96 p-4 space-y-3 bg-gray-900 bg-opacity-90 backdrop-blur-sm rounded-lg shadow-lg border border-amber-700 border-opacity-30 text-gray-200 text-xs">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-light tracking-wider">Export Run</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-amber-200" aria-label="Close export panel">
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {state.programs.map(name => (
+          <label key={name} className="flex items-center gap-2">
+            <input type="checkbox" checked={selected.includes(name)} onChange={() => toggleProgram(name)} />
+            {name}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={format} onChange={event => setFormat(event.target.value as ExportFormat)} className={inputClassName + ' w-28'}>
+          <option value="webm">WebM video</option>
+          <option value="png-zip">PNG frames (zip)</option>
+        </select>
+        <input type="number" min={1} value={width} onChange={event => setWidth(Number(event.target.value))} className={inputClassName} aria-label="Width" />
+        x
+        <input type="number" min={1} value={height} onChange={event => setHeight(Number(event.target.value))} className={inputClassName} aria-label="Height" />
+        <input type="number" min={1} value={fps} onChange={event => setFps(Number(event.target.value))} className={inputClassName + ' w-14'} aria-label="Frame rate" />
+        fps
+      </div>
+
+      <label className="flex items-center gap-2">
+        Seed
+        <input type="number" value={seed} onChange={event => setSeed(Number(event.target.value) >>> 0)} className={inputClassName + ' w-28'} />
+        <button onClick={() => setSeed(randomSeed())} className={buttonClassName}>New</button>
+      </label>
+
+      {state.exporting ? (
+        <div className="flex items-center justify-between">
+          <span className="opacity-80">Rendering {state.exporting.program} - frame {state.exporting.frame}</span>
+          <button onClick={() => abortRef.current?.abort()} className={buttonClassName}>Cancel</button>
+        </div>
+      ) : (
+        <button onClick={handleExport} className={buttonClassName} disabled={!state.ready || isBusy || programs.length === 0}>
+          Export
+        </button>
+      )}
+
+      <div className="pt-3 border-t border-amber-700 border-opacity-30 space-y-2">
+        <h2 className="text-sm font-light tracking-wider">Poster of Current Grid</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="number" min={1} value={posterWidth} onChange={event => setPosterWidth(Math.round(Number(event.target.value)))} className={inputClassName} aria-label="Poster width" />
+          x
+          <input type="number" min={1} value={posterHeight} onChange={event => setPosterHeight(Math.round(Number(event.target.value)))} className={inputClassName} aria-label="Poster height" />
+          px
+        </div>
+        {state.poster ? (
+          <div className="flex items-center justify-between">
+            <span className="opacity-80">Rendering tile {state.poster.tile} of {state.poster.tiles || '...'}</span>
+            <button onClick={() => abortRef.current?.abort()} className={buttonClassName}>Cancel</button>
+          </div>
+        ) : (
+          <button onClick={handlePoster} className={buttonClassName} disabled={!state.ready || isBusy}>
+            Render Poster
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
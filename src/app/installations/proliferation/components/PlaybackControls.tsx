@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { ProliferationController } from '../controller';
+import ExportPanel from './ExportPanel';
+
+const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4];
+
+interface PlaybackControlsProps {
+  controller: ProliferationController;
+}
+
+const selectClassName =
+  'bg-gray-800 bg-opacity-80 text-gray-200 text-xs rounded px-2 py-1 border border-amber-700 border-opacity-30 focus:outline-none focus:border-amber-500';
+const buttonClassName =
+  'px-3 py-1 text-xs rounded bg-gray-800 bg-opacity-80 text-gray-200 hover:bg-amber-800 hover:text-amber-100 transition-colors duration-200 disabled:opacity-40';
+
+/**
+ * On-screen control bar for the proliferation sketch.
+ * Keyboard: H hides/shows the bar, Space plays/pauses, . steps once.
+ */
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({ controller }) => {
+  const state = useSyncExternalStore(controller.subscribe, controller.getState, controller.getState);
+  const [isVisible, setIsVisible] = useState(true);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  const handlePhoto = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // So picking the same photo again still fires
+    if (!file) return;
+    controller.setMosaicPhoto(file).catch(error => {
+      console.error(`Couldn't use ${file.name} as the mosaic photo:`, error);
+    });
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Leave keys alone while a picker or field has focus
+      if (event.target instanceof HTMLSelectElement || event.target instanceof HTMLInputElement) return;
+      if (event.key === 'h' || event.key === 'H') {
+        setIsVisible(visible => !visible);
+      } else if (event.key === ' ') {
+        event.preventDefault();
+        controller.togglePlaying();
+      } else if (event.key === '.') {
+        controller.step();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [controller]);
+
+  if (!isVisible) {
+    return (
+      <button
+        onClick={() => setIsVisible(true)}
+        className="absolute top-4 right-4 z-20 px-3 py-1 text-xs rounded bg-gray-900 bg-opacity-60 text-gray-300 hover:bg-opacity-90 transition-all duration-200"
+        aria-label="Show playback controls"
+      >
+        Controls
+      </button>
+    );
+  }
+
+  return (
+    <>
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 z-20 flex flex-wrap items-center gap-3 px-4 py-2 bg-gray-900 bg-opacity-90 backdrop-blur-sm rounded-lg shadow-lg border border-amber-700 border-opacity-30 text-gray-200">
+        <button
+          onClick={() => controller.togglePlaying()}
+          className={buttonClassName}
+          disabled={!state.ready}
+          aria-label={state.playing ? 'Pause' : 'Play'}
+        >
+          {state.playing ? 'Pause' : 'Play'}
+        </button>
+
+        <button
+          onClick={() => controller.step()}
+          className={buttonClassName}
+          disabled={!state.ready}
+          aria-label="Step once"
+        >
+          Step
+        </button>
+
+        <label className="flex items-center gap-2 text-xs">
+          Speed
+          <select
+            value={state.speed}
+            onChange={event => controller.setSpeed(Number(event.target.value))}
+            className={selectClassName}
+            disabled={!state.ready}
+          >
+            {/* Keep a speed set elsewhere (config or URL) selectable even if it isn't a preset */}
+            {(SPEED_OPTIONS.includes(state.speed) ? SPEED_OPTIONS : [...SPEED_OPTIONS, state.speed].sort((a, b) => a - b)).map(speed => (
+              <option key={speed} value={speed}>{speed}x</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs">
+          Program
+          <select
+            value={state.program ?? ''}
+            onChange={event => controller.selectProgram(event.target.value)}
+            className={selectClassName}
+            disabled={!state.ready}
+          >
+            {state.programs.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs">
+          Tap Seeds
+          <select
+            value={state.seedProgram ?? ''}
+            onChange={event => controller.setSeedProgram(event.target.value)}
+            className={selectClassName}
+            disabled={!state.ready || state.seedPrograms.length === 0}
+          >
+            {state.seedPrograms.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-xs">
+          Color
+          <select
+            value={state.colorMode ?? ''}
+            onChange={event => controller.setColorMode(event.target.value)}
+            className={selectClassName}
+            disabled={!state.ready}
+          >
+            {state.colorModes.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => photoInputRef.current?.click()}
+          className={buttonClassName}
+          disabled={!state.ready}
+          title={state.mosaicPhoto ? `Mosaic photo: ${state.mosaicPhoto}` : 'Grow a photo as a brick mosaic'}
+        >
+          Photo
+        </button>
+        <input ref={photoInputRef} type="file" accept="image/*" onChange={handlePhoto} className="hidden" />
+
+        {state.interactive && (
+          <span className="text-xs text-amber-300 opacity-80">Visitor</span>
+        )}
+
+        <button
+          onClick={() => setIsExportOpen(open => !open)}
+          className={buttonClassName}
+          disabled={!state.ready}
+        >
+          Export
+        </button>
+
+        <button
+          onClick={() => setIsVisible(false)}
+          className="ml-1 text-gray-400 hover:text-amber-200 transition-colors duration-200"
+          aria-label="Hide playback controls"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {isExportOpen && <ExportPanel controller={controller} onClose={() => setIsExportOpen(false)} />}
+    </>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,47 @@
+import type { BondType } from './bonds';
+
+// --- Configuration ---
+export const TARGET_ROWS = 2; // Fixed number of rows
+export const TARGET_COLS = 10; // This will be calculated dynamically if FIX_ROWS is true
+export const FIX_ROWS = false; // If true, fix rows and calculate cols; if false, fix cols and calculate rows
+export const ORIGINAL_IMG_WIDTH = 600;
+export const ORIGINAL_IMG_HEIGHT = 500;
+export const IMAGE_ASPECT_RATIO = ORIGINAL_IMG_WIDTH / ORIGINAL_IMG_HEIGHT;
+export const FRAME_RATE = 15; // Frames per second drawn - only smoothness, the show's pace is timed in seconds below
+export const STEPS_PER_SECOND = 15; // Program steps per second at speed 1
+export const ANIMATION_SPEED = 1; // Multiplier on STEPS_PER_SECOND (1 = normal, 0.5 = half speed, 2 = double speed)
+export const FREEZE_DURATION = 1.5; // Seconds to hold each finished program before the next one
+export const TICK_RATE = 60; // Engine ticks per second - the fixed clock steps, freezes and transitions are timed on
+export const MAX_CATCH_UP = 1; // Seconds of stalled time (dropped frames, a hidden tab) made up at once - longer gaps are skipped
+export const PLAYLIST = ''; // Playlist file under PLAYLIST_DIR to run, without .json ('' = every program, picked at random)
+export const PLAYLIST_DIR = '/playlists';
+export const MOSAIC_PHOTO = ''; // Photo under MOSAIC_DIR the Mosaic program grows, with its extension ('' = a dithered disc until one is uploaded)
+export const MOSAIC_DIR = '/mosaics';
+// Messages the Graffiti program scratches into the wall, one picked at random per run
+export const GRAFFITI_MESSAGES: string[] = ['A ♥ B', 'A LOVES B', 'LOL', 'RIP', 'J + M 4EVER', 'WAS HERE', 'HELLO!'];
+export const WALL_RELAY = ''; // WebSocket relay for a video wall across machines, e.g. 'ws://192.168.1.10:8787' ('' = BroadcastChannel, windows on one machine)
+export const WALL_CHANNEL = 'proliferation-wall'; // BroadcastChannel the windows of a video wall talk on
+export const REMOTE_RELAY = ''; // Remote control relay the /control page drives this screen through, e.g. 'ws://192.168.1.10:8788' ('' = no remote control)
+export const SIMULATION_WORKER = true; // Step the engine in a Web Worker (false = on the main thread, e.g. for debugging programs)
+export const RESIZE_DEBOUNCE = 250; // Milliseconds after the last resize event before the grid is re-fitted
+export const TRANSITION_DURATION = 0.2; // Seconds a cell takes to animate between materials (0 = instant)
+export const ZIGZAG_OFFSET = 0.1; // How much to offset alternating rows (0 = no offset, 0.5 = half cell width)
+export const BOND: BondType = 'grid'; // How bricks are laid: 'grid' (the zigzag matrix above) or a masonry bond, see bonds/patterns.ts
+
+// --- Filters ---
+export const BRAND_DARK = '#2e1a12'; // Duotone shadows - fired-brick brown
+export const BRAND_LIGHT = '#f1dcc0'; // Duotone highlights - raw clay
+export const START_FILTER_PRESET = 'original'; // Filter preset on screen before the first program change
+
+// --- Visitor interaction ---
+export const IDLE_TIMEOUT = 30; // Seconds without visitor input before returning to the autonomous rotation
+export const PAINT_MATERIAL = 'brick'; // Material id visitors paint by dragging
+export const SEED_PROGRAM = 'ScanByRadiation'; // Program a tap seeds at the tapped cell (must take centerRow/centerCol)
+
+// --- Image paths ---
+export const BRICK_IMG_PATH = '/images/Brick.png';
+export const CLAY_IMG_PATH = '/images/Clay.png';
+export const GLAZED_BRICK_IMG_PATH = '/images/GlazedBrick.png';
+export const BURNT_BRICK_IMG_PATH = '/images/BurntBrick.png';
+export const BROKEN_BRICK_IMG_PATH = '/images/BrokenBrick.png';
+export const POSTER_IMG_DIR = '/images/full'; // Full-resolution photos for posters, same file names as above
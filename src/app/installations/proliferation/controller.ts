@@ -0,0 +1,169 @@
+import type { ExportOptions, ExportProgress, ExportResult, PosterOptions, PosterProgress } from './export';
+
+// --- Playback control ---
+// The sketch runs inside p5's draw loop and the control bar lives in React, so
+// they meet here: the sketch attaches itself as the PlaybackTarget and reports
+// its state back, and the page subscribes to that state to render the controls.
+
+export interface ColorModeOption {
+  id: string; // Filter preset id, see filters/presets.ts
+  label: string;
+}
+
+export interface PlaybackState {
+  ready: boolean; // False until the sketch has loaded its images and built the engine
+  playing: boolean;
+  speed: number; // Animation steps per frame
+  programs: string[]; // Every program in the rotation, in rotation order
+  program: string | null; // The program currently running
+  colorModes: ColorModeOption[]; // Every filter preset, in rotation order
+  colorMode: string | null;
+  interactive: boolean; // A visitor is painting or seeding - the rotation waits until they go idle
+  seedProgram: string | null; // What a tap on the grid starts
+  seedPrograms: string[]; // Programs in the rotation that can start from a tapped cell
+  mosaicPhoto: string | null; // File name of the photo the Mosaic program grows, null for its default disc
+  exporting: ExportProgress | null; // Set while an export is rendering
+  poster: PosterProgress | null; // Set while a poster is rendering
+}
+
+// An export, optionally pinned to a color mode (default: the mode on screen when it starts)
+export type ExportRequest = ExportOptions & { colorMode?: string };
+
+// A poster of a grid state (default: the grid on screen when it starts) in a color mode
+export type PosterRequest = PosterOptions & { colorMode?: string; grid?: number[][] };
+
+// What the sketch exposes to the controls
+export interface PlaybackTarget {
+  setPlaying(playing: boolean): void;
+  step(): void;
+  setSpeed(speed: number): void;
+  selectProgram(name: string): void;
+  setColorMode(id: string): void;
+  setSeedProgram(name: string): void;
+  setMosaicPhoto(url: string, name: string): Promise<void>;
+  exportRun(request: ExportRequest, onProgress: (progress: ExportProgress) => void): Promise<ExportResult>;
+  renderPoster(request: PosterRequest, onProgress: (progress: PosterProgress) => void): Promise<ExportResult>;
+}
+
+const INITIAL_STATE: PlaybackState = {
+  ready: false,
+  playing: true,
+  speed: 1,
+  programs: [],
+  program: null,
+  colorModes: [],
+  colorMode: null,
+  interactive: false,
+  seedProgram: null,
+  seedPrograms: [],
+  mosaicPhoto: null,
+  exporting: null,
+  poster: null,
+};
+
+/**
+ * Bridge between a running proliferation sketch and whatever drives it.
+ * Commands sent before the sketch attaches are dropped - check state.ready.
+ */
+export class ProliferationController {
+  private target: PlaybackTarget | null = null;
+  private state: PlaybackState = INITIAL_STATE;
+  private listeners: Set<() => void> = new Set();
+
+  // A remounted sketch simply attaches over the previous one
+  attach(target: PlaybackTarget) {
+    this.target = target;
+  }
+
+  /**
+   * Called by the sketch whenever something the controls show has changed
+   */
+  report(changes: Partial<PlaybackState>) {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  // subscribe/getState follow React's useSyncExternalStore contract - state is replaced, never mutated
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  getState = (): PlaybackState => this.state;
+
+  play() {
+    this.target?.setPlaying(true);
+  }
+
+  pause() {
+    this.target?.setPlaying(false);
+  }
+
+  togglePlaying() {
+    this.target?.setPlaying(!this.state.playing);
+  }
+
+  // Advance a single animation step, pausing first if needed
+  step() {
+    this.target?.step();
+  }
+
+  setSpeed(speed: number) {
+    this.target?.setSpeed(speed);
+  }
+
+  selectProgram(name: string) {
+    this.target?.selectProgram(name);
+  }
+
+  setColorMode(id: string) {
+    this.target?.setColorMode(id);
+  }
+
+  setSeedProgram(name: string) {
+    this.target?.setSeedProgram(name);
+  }
+
+  /**
+   * Make a photo (e.g. from a file input) the Mosaic program's target and start growing it
+   */
+  async setMosaicPhoto(file: File) {
+    if (!this.target) throw new Error('The sketch is not ready for photos yet');
+    const url = URL.createObjectURL(file);
+    try {
+      await this.target.setMosaicPhoto(url, file.name);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Render a program sequence offscreen; progress shows up in state.exporting
+   */
+  async exportRun(request: ExportRequest): Promise<ExportResult> {
+    if (!this.target) throw new Error('The sketch is not ready to export yet');
+    if (this.state.exporting) throw new Error('An export is already running');
+
+    this.report({ exporting: { frame: 0, program: request.programs[0] ?? '' } });
+    try {
+      return await this.target.exportRun(request, progress => this.report({ exporting: progress }));
+    } finally {
+      this.report({ exporting: null });
+    }
+  }
+
+  /**
+   * Render a high-resolution PNG of one grid state; progress shows up in state.poster
+   */
+  async renderPoster(request: PosterRequest): Promise<ExportResult> {
+    if (!this.target) throw new Error('The sketch is not ready to render posters yet');
+    if (this.state.poster) throw new Error('A poster is already rendering');
+
+    this.report({ poster: { tile: 0, tiles: 0 } });
+    try {
+      return await this.target.renderPoster(request, progress => this.report({ poster: progress }));
+    } finally {
+      this.report({ poster: null });
+    }
+  }
+}
@@ -0,0 +1,439 @@
+import { STEPS_PER_SECOND, TICK_RATE } from '../config';
+import { CELL_CLAY } from '../types';
+import type { Program, ProgramContext, TransitionSpec, TransitionStyle } from '../types';
+import { createProgram, getProgramDefinition, getProgramDefinitions } from '../programs';
+import type { ProgramParams } from '../programs';
+import { MatrixTopology } from '../bonds';
+import type { GridTopology } from '../bonds';
+import { PlaylistCursor, playlistOf } from '../playlists';
+import type { Playlist, PlaylistEntry } from '../playlists';
+import { createRandom, randomSeed } from './random';
+import type { RandomSource } from './random';
+import { remapGrid, remapPosition } from './remap';
+
+export interface EngineOptions {
+  rows: number;
+  cols: number;
+  topology?: GridTopology; // Brick layout for rows x cols (default: every cell a brick in a plain grid)
+  seed?: number; // Omit for a random seed (logged so the run can be replayed)
+  speed?: number; // Multiplier on stepsPerSecond (1 = normal, 0.5 = half speed, 2 = double speed)
+  stepsPerSecond?: number; // Program updates per second at speed 1 (default STEPS_PER_SECOND)
+  freezeDuration?: number; // Seconds to hold the finished grid before the next program
+  tickRate?: number; // Ticks per second of the engine's clock - step() runs one (default TICK_RATE)
+  programs?: string[]; // Rotation, by registered name - defaults to every registered program
+  order?: 'random' | 'sequence'; // Pick each next program at random (default) or play the rotation in order, looping
+  playlist?: Playlist; // Scripted show - replaces programs and order, see playlists/schema.ts
+  transition?: TransitionSpec; // Cell transition for programs that don't pick their own (default: instant cut)
+  onProgramChange?: (name: string, entry: PlaylistEntry) => void; // Called when the rotation moves on to a new program
+}
+
+interface RotationEntry {
+  name: string;
+  program: Program;
+  transition: Pick<CellTransition, 'style' | 'frames'>;
+}
+
+// Where an engine is in its rotation - enough for another engine, on a grid
+// of a different size, to carry on from the same point (see resumeFrom)
+export interface EngineState {
+  program: string;
+  params: Partial<ProgramParams> | null; // A visitor's seeded run, or null for the rotation's own
+  entry: number; // Playlist entry it was started from
+  steps: number; // Updates the program has run since its reset
+  cells: number; // Cells on the grid it ran on, to rescale steps to another size
+  frozen: boolean;
+  freezeCounter: number; // Ticks of the freeze already held
+  interrupted: boolean;
+  grid: number[][];
+}
+
+// Safety stop when a finished program is run to its end on a grid where it never finishes
+const MAX_RESUMED_STEPS = 100000;
+
+/**
+ * The playlist an engine built with these options plays - the given one, or
+ * the programs (every registered one by default) in the given order
+ */
+export function resolvePlaylist(options: Pick<EngineOptions, 'playlist' | 'programs' | 'order'>): Playlist {
+  return options.playlist
+    ?? playlistOf(options.programs ?? getProgramDefinitions().map(definition => definition.name), options.order ?? 'random');
+}
+
+// A cell that is animating from its previous material to its current one
+export interface CellTransition {
+  style: TransitionStyle;
+  frames: number; // Ticks the animation lasts
+  from: number;
+  startFrame: number; // Tick the cell flipped on
+}
+
+/**
+ * The proliferation simulation without any rendering. Owns the grid, the
+ * program rotation and the freeze between programs; step() advances one tick
+ * of a fixed clock (tickRate per second), and program steps, freezes and
+ * transitions are all timed on it. Runs in Node as well as the browser, and
+ * is fully deterministic for a seed.
+ */
+export class ProliferationEngine {
+  readonly rows: number;
+  readonly cols: number;
+  readonly seed: number;
+  readonly topology: GridTopology;
+
+  private grid: number[][];
+  private transitions: (CellTransition | null)[][]; // Per-cell timing alongside the grid
+  private random: RandomSource;
+  private speed: number; // Current speed - the base speed unless the playlist entry overrides it
+  private stepsPerSecond: number;
+  private tickRate: number;
+  private freezeDuration: number; // Seconds
+  private baseSpeed: number;
+  private baseFreezeDuration: number;
+  private onProgramChange?: (name: string, entry: PlaylistEntry) => void;
+
+  private context: ProgramContext;
+  private rotation: RotationEntry[] = []; // One per distinct program in the playlist
+  private currentIndex: number = 0;
+  private playlist: Playlist;
+  private cursor: PlaylistCursor;
+  private seededProgram: Program | null = null; // One-off run of the current entry with custom params
+  private seededParams: Partial<ProgramParams> | null = null;
+  private programSteps: number = 0; // Updates the current program has run since its reset
+  private interrupted: boolean = false; // A visitor painted over the running program
+  private autonomous: boolean = true; // Move on to the next program after each freeze
+  private stepCounter: number = 0; // Fractional steps carried between ticks
+  private isFrozen: boolean = false;
+  private freezeCounter: number = 0; // Ticks
+  private frame: number = 0; // Ticks run so far
+
+  constructor(options: EngineOptions) {
+    this.rows = options.rows;
+    this.cols = options.cols;
+    this.topology = options.topology ?? new MatrixTopology(this.rows, this.cols);
+    if (this.topology.rows !== this.rows || this.topology.cols !== this.cols) {
+      throw new Error(`Topology is ${this.topology.rows}x${this.topology.cols} but the grid is ${this.rows}x${this.cols}`);
+    }
+    this.seed = options.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.baseSpeed = this.speed = options.speed ?? 1;
+    this.stepsPerSecond = options.stepsPerSecond ?? STEPS_PER_SECOND;
+    this.tickRate = options.tickRate ?? TICK_RATE;
+    this.baseFreezeDuration = this.freezeDuration = options.freezeDuration ?? 0;
+    this.onProgramChange = options.onProgramChange;
+
+    this.grid = Array(this.rows).fill(null).map(() => Array(this.cols).fill(CELL_CLAY));
+    this.transitions = Array(this.rows).fill(null).map(() => Array(this.cols).fill(null));
+    const defaultTransition: TransitionSpec = options.transition ?? { style: 'cut', duration: 0 };
+
+    const context: ProgramContext = {
+      updateGridState: this.updateGridCell,
+      getGridState: () => this.grid,
+      rows: this.rows,
+      cols: this.cols,
+      random: this.random,
+      topology: this.topology,
+    };
+    this.context = context;
+    this.playlist = resolvePlaylist(options);
+    if (this.playlist.entries.length === 0) {
+      throw new Error('ProliferationEngine needs at least one program in its rotation');
+    }
+    this.cursor = new PlaylistCursor(this.playlist, this.random);
+    const names = [...new Set(this.playlist.entries.map(entry => entry.program))];
+    this.rotation = names.map(name => {
+      const own = getProgramDefinition(name)?.transition;
+      return {
+        name,
+        program: createProgram(name, context),
+        transition: {
+          style: own?.style ?? defaultTransition.style,
+          frames: Math.max(1, Math.round((own?.duration ?? defaultTransition.duration) * this.tickRate)),
+        },
+      };
+    });
+
+    this.startEntry(this.cursor.getCurrent());
+  }
+
+  // Holes in a bond have no brick to show, so writes to them are dropped
+  private updateGridCell = (row: number, col: number, value: number) => {
+    if (this.topology.has(row, col)) {
+      const from = this.grid[row][col];
+      if (from === value) return;
+      this.grid[row][col] = value;
+
+      const transition = this.rotation[this.currentIndex]?.transition;
+      this.transitions[row][col] = transition && transition.style !== 'cut' && transition.frames > 1
+        ? { ...transition, from, startFrame: this.frame }
+        : null;
+    }
+  };
+
+  private startProgram(index: number, params?: Partial<ProgramParams>) {
+    // Custom params get a fresh instance; the rotation's own program keeps its defaults.
+    // Built first, so params the program rejects leave the engine as it was
+    const seededProgram = params ? createProgram(this.rotation[index].name, this.context, params) : null;
+    this.currentIndex = index;
+    this.stepCounter = 0;
+    this.isFrozen = false;
+    this.freezeCounter = 0;
+    this.interrupted = false;
+    this.programSteps = 0;
+    this.seededProgram = seededProgram;
+    this.seededParams = params ?? null;
+    this.currentProgram().reset();
+  }
+
+  // Start a playlist entry's program with the entry's speed, freeze and params (unless params replace them).
+  // An entry whose program won't start is skipped for the next one, so a bad entry can't stall the show
+  private startEntry(entryIndex: number, params?: Partial<ProgramParams>, skipped: number = 0) {
+    const entry = this.playlist.entries[entryIndex];
+    this.cursor.setCurrent(entryIndex);
+    try {
+      this.startProgram(this.rotation.findIndex(rotationEntry => rotationEntry.name === entry.program), params ?? entry.params);
+    } catch (error) {
+      if (skipped + 1 >= this.playlist.entries.length) throw error;
+      console.error(`❌ Couldn't start playlist entry ${entryIndex} (${entry.program}), skipping to the next:`, error);
+      this.startEntry(this.cursor.next(), undefined, skipped + 1);
+      return;
+    }
+    this.speed = entry.speed ?? this.baseSpeed;
+    this.freezeDuration = entry.freeze ?? this.baseFreezeDuration;
+  }
+
+  private currentProgram(): Program {
+    return this.seededProgram ?? this.rotation[this.currentIndex].program;
+  }
+
+  private freezeTicks(): number {
+    return Math.round(this.freezeDuration * this.tickRate);
+  }
+
+  /**
+   * Advance one tick: step the current program, or count down the freeze
+   * and move on to the playlist's next entry once it has elapsed.
+   * Pass programSteps to run exactly that many program updates this tick
+   * instead of pacing by speed (single-stepping from the controls).
+   */
+  step(programSteps?: number) {
+    this.frame++;
+    const program = this.currentProgram();
+    const isDone = () => this.interrupted || program.isDone();
+
+    if (programSteps !== undefined) {
+      for (let i = 0; i < programSteps && !isDone(); i++) {
+        program.update();
+        this.programSteps++;
+      }
+    } else if (!isDone()) {
+      // Steps per tick from steps per second - carry fractional steps over to the next tick
+      this.stepCounter += (this.speed * this.stepsPerSecond) / this.tickRate;
+      while (this.stepCounter >= 1 && !isDone()) {
+        this.stepCounter -= 1;
+        program.update();
+        this.programSteps++;
+      }
+    }
+
+    if (!isDone()) return;
+
+    if (!this.isFrozen) {
+      // Program just completed, start freeze period
+      this.isFrozen = true;
+      this.freezeCounter = 0;
+      return;
+    }
+
+    // Already freezing, count ticks - a manual step skips the rest of the hold
+    this.freezeCounter = programSteps !== undefined ? this.freezeTicks() : this.freezeCounter + 1;
+    if (this.freezeCounter >= this.freezeTicks() && this.autonomous) {
+      const entryIndex = this.cursor.next();
+      this.startEntry(entryIndex);
+      this.onProgramChange?.(this.getCurrentProgramName(), this.playlist.entries[this.cursor.getCurrent()]);
+    }
+  }
+
+  /**
+   * Run several ticks at once - the ticks a Scheduler says are due
+   */
+  advance(ticks: number) {
+    for (let i = 0; i < ticks; i++) this.step();
+  }
+
+  /**
+   * Step several ticks, returning a snapshot after each one
+   */
+  run(frames: number): number[][][] {
+    const snapshots: number[][][] = [];
+    for (let i = 0; i < frames; i++) {
+      this.step();
+      snapshots.push(this.snapshot());
+    }
+    return snapshots;
+  }
+
+  /**
+   * A copy of the grid that later frames won't mutate
+   */
+  snapshot(): number[][] {
+    return this.grid.map(row => [...row]);
+  }
+
+  /**
+   * The live grid - read only, it changes on every step
+   */
+  getGrid(): readonly (readonly number[])[] {
+    return this.grid;
+  }
+
+  /**
+   * The cell's running transition, or null once it has finished.
+   * Progress runs from 1/frames on the tick of the flip up to 1.
+   */
+  getTransition(row: number, col: number): (CellTransition & { progress: number }) | null {
+    const transition = this.transitions[row]?.[col];
+    if (!transition) return null;
+
+    const progress = (this.frame - transition.startFrame + 1) / transition.frames;
+    if (progress >= 1) {
+      this.transitions[row][col] = null;
+      return null;
+    }
+    return { ...transition, progress };
+  }
+
+  /**
+   * Jump straight to a program in the rotation, restarting it from reset.
+   * Plays as the program's first playlist entry, with that entry's overrides;
+   * params replace the entry's for this run only (e.g. a visitor's seed cell).
+   * onProgramChange isn't called - the caller already knows what it picked.
+   */
+  selectProgram(name: string, params?: Partial<ProgramParams>) {
+    const entryIndex = this.playlist.entries.findIndex(entry => entry.program === name);
+    if (entryIndex === -1) {
+      throw new Error(`Program "${name}" is not in this engine's rotation`);
+    }
+    this.startEntry(entryIndex, params);
+  }
+
+  /**
+   * Where the engine is now, for resumeFrom on another engine (e.g. after a resize)
+   */
+  saveState(): EngineState {
+    return {
+      program: this.getCurrentProgramName(),
+      entry: this.cursor.getCurrent(),
+      params: this.seededParams,
+      steps: this.programSteps,
+      cells: this.rows * this.cols,
+      frozen: this.isFrozen,
+      freezeCounter: this.freezeCounter,
+      interrupted: this.interrupted,
+      grid: this.snapshot(),
+    };
+  }
+
+  /**
+   * Carry on from another engine's state, whatever its grid size: restart the
+   * same program, fast-forward it by its steps scaled to this grid's size (or
+   * to its end if it had finished), then lay the old grid (resampled to this
+   * size) over it so nothing visibly resets.
+   * onProgramChange isn't called - it's the same program.
+   */
+  resumeFrom(state: EngineState) {
+    const index = this.rotation.findIndex(entry => entry.name === state.program);
+    if (index === -1) {
+      throw new Error(`Program "${state.program}" is not in this engine's rotation`);
+    }
+    // Same playlist entry when it still plays this program, for its speed and freeze
+    const entryIndex = this.playlist.entries[state.entry]?.program === state.program
+      ? state.entry
+      : this.playlist.entries.findIndex(entry => entry.program === state.program);
+    const entry = this.playlist.entries[entryIndex];
+    this.cursor.setCurrent(entryIndex);
+    this.speed = entry.speed ?? this.baseSpeed;
+    this.freezeDuration = entry.freeze ?? this.baseFreezeDuration;
+
+    // A seeded centre moves with the grid
+    const fromRows = state.grid.length;
+    const fromCols = state.grid[0]?.length ?? 0;
+    let params = state.params ?? undefined;
+    if (params && typeof params.centerRow === 'number' && typeof params.centerCol === 'number'
+      && params.centerRow >= 0 && params.centerCol >= 0 && fromRows > 0 && fromCols > 0) {
+      const center = remapPosition({ r: params.centerRow, c: params.centerCol }, fromRows, fromCols, this.rows, this.cols);
+      params = { ...params, centerRow: center.r, centerCol: center.c };
+    }
+    this.startProgram(index, params);
+
+    const program = this.currentProgram();
+    const target = state.frozen
+      ? MAX_RESUMED_STEPS
+      : Math.round(state.steps * (this.rows * this.cols) / Math.max(1, state.cells));
+    while (this.programSteps < target && !program.isDone()) {
+      program.update();
+      this.programSteps++;
+    }
+
+    // In place - programs hold on to the grid through getGridState. Holes keep
+    // their clay, as they would through updateGridCell
+    remapGrid(state.grid, this.rows, this.cols).forEach((row, r) => row.forEach((value, c) => {
+      if (this.topology.has(r, c)) this.grid[r][c] = value;
+      this.transitions[r][c] = null;
+    }));
+    this.isFrozen = state.frozen;
+    this.freezeCounter = state.freezeCounter;
+    this.interrupted = state.interrupted;
+  }
+
+  /**
+   * Paint one cell directly. This stops the running program, so the grid
+   * holds what was painted until the next program starts.
+   */
+  paintCell(row: number, col: number, value: number) {
+    this.interrupted = true;
+    this.updateGridCell(row, col, value);
+  }
+
+  /**
+   * With autonomous off, a finished program holds its grid instead of handing
+   * over to the next one - used while visitors are interacting
+   */
+  setAutonomous(autonomous: boolean) {
+    this.autonomous = autonomous;
+  }
+
+  /**
+   * Change the base speed - this also overrides the running entry's own speed until the next program
+   */
+  setSpeed(speed: number) {
+    this.baseSpeed = this.speed = Math.max(0, speed);
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  getPlaylist(): Playlist {
+    return this.playlist;
+  }
+
+  getCurrentEntry(): PlaylistEntry {
+    return this.playlist.entries[this.cursor.getCurrent()];
+  }
+
+  getProgramNames(): string[] {
+    return this.rotation.map(entry => entry.name);
+  }
+
+  getCurrentProgramName(): string {
+    return this.rotation[this.currentIndex].name;
+  }
+
+  getFrame(): number {
+    return this.frame;
+  }
+
+  isFreezing(): boolean {
+    return this.isFrozen;
+  }
+}
@@ -0,0 +1,39 @@
+import { MAX_CATCH_UP, TICK_RATE } from '../config';
+
+/**
+ * Turns elapsed time into whole engine ticks. The engine steps on a fixed
+ * clock of tickRate ticks per second, so however the time arrives - 144
+ * frames a second on a laptop, 10 on a throttled kiosk, or a burst after
+ * dropped frames - the same stretch of time runs the same ticks.
+ */
+export class Scheduler {
+  private tickRate: number;
+  private maxCatchUp: number; // Longest gap made up at once, in seconds
+  private elapsed: number = 0; // Seconds of show time so far
+  private ticks: number = 0; // Ticks handed out so far
+
+  constructor(tickRate: number = TICK_RATE, maxCatchUp: number = MAX_CATCH_UP) {
+    this.tickRate = tickRate;
+    this.maxCatchUp = maxCatchUp;
+  }
+
+  /**
+   * Ticks due after deltaTime more milliseconds (e.g. p5's deltaTime).
+   * A gap longer than maxCatchUp is cut short, so a tab that was hidden for
+   * minutes doesn't fast-forward through whole programs when it comes back.
+   */
+  advance(deltaTime: number): number {
+    this.elapsed += Math.min(Math.max(0, deltaTime) / 1000, this.maxCatchUp);
+    // A hair of slack so float sums that land just under a tick still count it
+    const due = Math.floor(this.elapsed * this.tickRate + 1e-6) - this.ticks;
+    this.ticks += due;
+    return due;
+  }
+
+  /**
+   * Seconds of show time so far
+   */
+  getElapsed(): number {
+    return this.elapsed;
+  }
+}
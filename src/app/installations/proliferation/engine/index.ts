@@ -0,0 +1,6 @@
+export { ProliferationEngine, resolvePlaylist } from './ProliferationEngine';
+export type { EngineOptions, EngineState, CellTransition } from './ProliferationEngine';
+export { Scheduler } from './Scheduler';
+export { remapGrid, remapPosition } from './remap';
+export { createRandom, randomInt, randomSeed } from './random';
+export type { RandomSource } from './random';
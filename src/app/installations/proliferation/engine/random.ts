@@ -0,0 +1,31 @@
+// Small seeded PRNG (mulberry32) so a run can be replayed exactly from its seed
+
+export type RandomSource = () => number;
+
+/**
+ * Returns a generator of floats in [0, 1), deterministic for a given seed
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * A fresh seed for runs that don't ask for one - log it to replay the run later
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Integer in [0, max)
+ */
+export function randomInt(random: RandomSource, max: number): number {
+  return Math.floor(random() * max);
+}
@@ -0,0 +1,37 @@
+import { CELL_CLAY } from '../types';
+import type { GridPosition } from '../paths';
+
+/**
+ * The cell of a rows x cols grid at the same relative place as a cell of a
+ * fromRows x fromCols grid (nearest cell centre)
+ */
+export function remapPosition(
+  pos: GridPosition,
+  fromRows: number,
+  fromCols: number,
+  rows: number,
+  cols: number
+): GridPosition {
+  return {
+    r: Math.min(rows - 1, Math.max(0, Math.floor(((pos.r + 0.5) * rows) / fromRows))),
+    c: Math.min(cols - 1, Math.max(0, Math.floor(((pos.c + 0.5) * cols) / fromCols))),
+  };
+}
+
+/**
+ * Resample a grid to a new size - each new cell takes the old cell under its centre
+ */
+export function remapGrid(grid: readonly (readonly number[])[], rows: number, cols: number): number[][] {
+  const fromRows = grid.length;
+  const fromCols = grid[0]?.length ?? 0;
+  const remapped: number[][] = [];
+  for (let r = 0; r < rows; r++) {
+    remapped.push([]);
+    for (let c = 0; c < cols; c++) {
+      // Inverse mapping, so every new cell gets a value whichever way the size changed
+      const from = fromRows > 0 && fromCols > 0 ? remapPosition({ r, c }, rows, cols, fromRows, fromCols) : null;
+      remapped[r].push(from ? grid[from.r][from.c] : CELL_CLAY);
+    }
+  }
+  return remapped;
+}
@@ -0,0 +1,7 @@
+export { renderExport, downloadExport } from './renderExport';
+export type { ExportFormat, ExportOptions, ExportProgress, ExportResult } from './renderExport';
+export { renderPoster } from './renderPoster';
+export type { PosterOptions, PosterProgress } from './renderPoster';
+export { PngStreamWriter } from './png';
+export { createZip } from './zip';
+export type { ZipEntry } from './zip';
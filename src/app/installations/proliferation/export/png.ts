@@ -0,0 +1,107 @@
+import { crc32 } from './crc32';
+
+// Streaming PNG encoder for images too big for a single canvas. Pixel rows
+// are fed in top to bottom, deflated on the fly with CompressionStream and the
+// compressed output is kept as IDAT chunks, so the raw image never sits in memory.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const FILTER_UP = 2; // Each byte minus the one above it - cheap and helps photos compress
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+/**
+ * Writes an 8-bit RGB PNG row by row
+ */
+export class PngStreamWriter {
+  readonly width: number;
+  readonly height: number;
+
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private compressed: Promise<Uint8Array[]>;
+  private previousRow: Uint8Array;
+  private rowsWritten: number = 0;
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+    this.previousRow = new Uint8Array(width * 3); // Row "above" the first one is all zeros
+
+    const compressor = new CompressionStream('deflate'); // zlib format, exactly what IDAT expects
+    this.writer = compressor.writable.getWriter();
+    this.compressed = this.collect(compressor.readable);
+  }
+
+  // Drain the compressor as it goes, or writes would stall once its queue fills
+  private async collect(readable: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+    const chunks: Uint8Array[] = [];
+    const reader = readable.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return chunks;
+      chunks.push(value);
+    }
+  }
+
+  /**
+   * Append rows from RGBA pixel data (as from getImageData) spanning the full width
+   */
+  async writeRows(rgba: Uint8ClampedArray, rowCount: number) {
+    if (this.rowsWritten + rowCount > this.height) {
+      throw new Error(`PNG is ${this.height} rows high, cannot write row ${this.rowsWritten + rowCount}`);
+    }
+
+    const stride = 1 + this.width * 3; // Filter byte then RGB
+    const scanlines = new Uint8Array(rowCount * stride);
+    for (let y = 0; y < rowCount; y++) {
+      const row = new Uint8Array(this.width * 3);
+      for (let x = 0; x < this.width; x++) {
+        const src = (y * this.width + x) * 4;
+        row[x * 3] = rgba[src];
+        row[x * 3 + 1] = rgba[src + 1];
+        row[x * 3 + 2] = rgba[src + 2];
+      }
+
+      const out = y * stride;
+      scanlines[out] = FILTER_UP;
+      for (let i = 0; i < row.length; i++) {
+        scanlines[out + 1 + i] = (row[i] - this.previousRow[i]) & 0xff;
+      }
+      this.previousRow = row;
+    }
+
+    await this.writer.write(scanlines);
+    this.rowsWritten += rowCount;
+  }
+
+  /**
+   * Close the stream and assemble the file - every row must have been written
+   */
+  async finish(): Promise<Blob> {
+    if (this.rowsWritten !== this.height) {
+      throw new Error(`PNG needs ${this.height} rows but only ${this.rowsWritten} were written`);
+    }
+    await this.writer.close();
+    const data = await this.compressed;
+
+    const header = new Uint8Array(13);
+    const view = new DataView(header.buffer);
+    view.setUint32(0, this.width);
+    view.setUint32(4, this.height);
+    header[8] = 8; // Bit depth
+    header[9] = 2; // Color type: RGB
+    // Compression, filter and interlace methods are all 0
+
+    return new Blob(
+      [PNG_SIGNATURE, pngChunk('IHDR', header), ...data.map(chunk => pngChunk('IDAT', chunk)), pngChunk('IEND', new Uint8Array(0))],
+      { type: 'image/png' }
+    );
+  }
+}
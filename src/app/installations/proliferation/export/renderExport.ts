@@ -0,0 +1,168 @@
+import { TRANSITION_DURATION } from '../config';
+import type { P5Image, P5Instance } from '../types';
+import { ProliferationEngine, Scheduler } from '../engine';
+import { computeGridLayout } from '../rendering/layout';
+import { drawGrid } from '../rendering/grid';
+import { DEFAULT_SETTINGS } from '../settings';
+import type { SketchSettings } from '../settings';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+export type ExportFormat = 'webm' | 'png-zip';
+
+export interface ExportOptions {
+  programs: string[]; // Played once each, in this order
+  format: ExportFormat;
+  width: number; // Output resolution in pixels, independent of the window
+  height: number;
+  fps: number; // Output frame rate, independent of the live frame rate
+  seed: number; // Same seed and programs = same frames
+  speed?: number; // Speed multiplier (default settings.animationSpeed)
+  settings?: SketchSettings; // Grid shape and live pacing to reproduce (default: the config constants)
+  maxFrames?: number; // Safety stop for programs that never finish
+  signal?: AbortSignal; // Abort to cancel the export
+}
+
+export interface ExportProgress {
+  frame: number;
+  program: string;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  frames: number;
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Could not encode export frame as PNG'));
+        return;
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+
+/**
+ * Render a program sequence offscreen with its own seeded engine and encode it.
+ * The live canvas keeps running untouched. The engine is timed in seconds, so
+ * at any output frame rate the export plays at the same tempo as the show.
+ */
+export async function renderExport(
+  p: P5Instance,
+  options: ExportOptions,
+  textureFor: (material: number) => P5Image | null,
+  onProgress?: (progress: ExportProgress) => void
+): Promise<ExportResult> {
+  if (options.programs.length === 0) {
+    throw new Error('Export needs at least one program');
+  }
+  if (options.width < 1 || options.height < 1 || options.fps <= 0) {
+    throw new Error(`Invalid export size ${options.width}x${options.height} @ ${options.fps}fps`);
+  }
+
+  const mimeType = options.format === 'webm'
+    ? WEBM_TYPES.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type))
+    : undefined;
+  if (options.format === 'webm' && !mimeType) {
+    throw new Error('This browser cannot record WebM video - try the PNG sequence instead');
+  }
+
+  const settings = options.settings ?? DEFAULT_SETTINGS;
+  const layout = computeGridLayout(options.width, options.height, settings);
+  let programChanges = 0;
+  const engine = new ProliferationEngine({
+    rows: layout.rows,
+    cols: layout.cols,
+    topology: layout.topology,
+    seed: options.seed,
+    speed: options.speed ?? settings.animationSpeed,
+    freezeDuration: settings.freezeDuration,
+    programs: options.programs,
+    order: 'sequence',
+    transition: { style: 'crossfade', duration: TRANSITION_DURATION },
+    onProgramChange: () => programChanges++,
+  });
+
+  const graphics = p.createGraphics(options.width, options.height);
+  graphics.pixelDensity(1); // One output pixel per canvas pixel, whatever the display
+  const maxFrames = options.maxFrames ?? Math.round(options.fps * 600);
+  const baseName = `proliferation-${options.seed}`;
+  const scheduler = new Scheduler();
+
+  // Runs one output frame's worth of ticks and draws it; false once the last program's freeze has ended
+  const renderFrame = (): boolean => {
+    engine.advance(scheduler.advance(1000 / options.fps));
+    if (programChanges >= options.programs.length) return false; // Wrapped back to the first program
+    drawGrid(graphics, engine, layout, textureFor);
+    return true;
+  };
+
+  const checkAborted = () => {
+    if (options.signal?.aborted) throw new Error('Export cancelled');
+  };
+
+  try {
+    let frames = 0;
+
+    if (options.format === 'png-zip') {
+      const entries: ZipEntry[] = [];
+      while (frames < maxFrames && renderFrame()) {
+        checkAborted();
+        frames++;
+        entries.push({ name: `${baseName}/frame-${String(frames).padStart(5, '0')}.png`, data: await canvasToPng(graphics.elt) });
+        onProgress?.({ frame: frames, program: engine.getCurrentProgramName() });
+      }
+      return { blob: createZip(entries), filename: `${baseName}.zip`, frames };
+    }
+
+    // MediaRecorder timestamps frames by wall clock, so frames are pushed at the output rate
+    const stream = graphics.elt.captureStream(0);
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise(resolve => { recorder.onstop = resolve; });
+
+    recorder.start();
+    const frameMs = 1000 / options.fps;
+    const start = performance.now();
+    try {
+      while (frames < maxFrames && renderFrame()) {
+        checkAborted();
+        track.requestFrame();
+        frames++;
+        onProgress?.({ frame: frames, program: engine.getCurrentProgramName() });
+        await wait(start + frames * frameMs - performance.now());
+      }
+    } finally {
+      recorder.stop();
+      await stopped;
+      track.stop();
+    }
+    return { blob: new Blob(chunks, { type: 'video/webm' }), filename: `${baseName}.webm`, frames };
+  } finally {
+    graphics.remove();
+  }
+}
+
+/**
+ * Save an export through the browser's download prompt
+ */
+export function downloadExport(result: ExportResult) {
+  const url = URL.createObjectURL(result.blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = result.filename;
+  link.click();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,95 @@
+import type { P5Image, P5Instance } from '../types';
+import type { GridTopology } from '../bonds';
+import { layoutForGrid } from '../rendering/layout';
+import { drawGrid } from '../rendering/grid';
+import { PngStreamWriter } from './png';
+import type { ExportResult } from './renderExport';
+
+export interface PosterOptions {
+  width: number; // Output size in pixels - can be far larger than any canvas
+  height: number;
+  tileSize?: number; // Offscreen buffer size per tile (default 2048)
+  zigzagOffset?: number; // Row offset of the layout to reproduce (default ZIGZAG_OFFSET)
+  topology?: GridTopology; // Brick layout the grid was run on (default: the plain grid)
+  name?: string; // File name without extension
+  signal?: AbortSignal;
+}
+
+export interface PosterProgress {
+  tile: number;
+  tiles: number;
+}
+
+const DEFAULT_TILE_SIZE = 2048;
+
+/**
+ * Render one grid state as a single large PNG. The poster is drawn tile by tile
+ * into a small offscreen buffer and each band of tiles is streamed into the PNG,
+ * so neither the canvas size limit nor memory caps the output size.
+ */
+export async function renderPoster(
+  p: P5Instance,
+  grid: readonly (readonly number[])[],
+  options: PosterOptions,
+  textureFor: (material: number) => P5Image | null,
+  onProgress?: (progress: PosterProgress) => void
+): Promise<ExportResult> {
+  const { width, height } = options;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid poster size ${width}x${height}`);
+  }
+  if (grid.length === 0 || grid[0].length === 0) {
+    throw new Error('Poster needs a grid with at least one cell');
+  }
+  if (typeof CompressionStream === 'undefined') {
+    throw new Error('This browser cannot encode posters (no CompressionStream support)');
+  }
+
+  const tileSize = options.tileSize ?? DEFAULT_TILE_SIZE;
+  const layout = layoutForGrid(width, height, grid.length, grid[0].length, options.zigzagOffset, options.topology);
+  const source = { getGrid: () => grid };
+  const tilesAcross = Math.ceil(width / tileSize);
+  const tilesDown = Math.ceil(height / tileSize);
+  const tiles = tilesAcross * tilesDown;
+
+  const graphics = p.createGraphics(tileSize, tileSize);
+  graphics.pixelDensity(1); // One poster pixel per buffer pixel
+  const context = graphics.elt.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    graphics.remove();
+    throw new Error('Could not read back poster tiles');
+  }
+
+  const png = new PngStreamWriter(width, height);
+  let tile = 0;
+
+  try {
+    for (let y = 0; y < height; y += tileSize) {
+      const bandHeight = Math.min(tileSize, height - y);
+      const band = new Uint8ClampedArray(width * bandHeight * 4);
+
+      for (let x = 0; x < width; x += tileSize) {
+        if (options.signal?.aborted) throw new Error('Poster cancelled');
+        const tileWidth = Math.min(tileSize, width - x);
+        drawGrid(graphics, source, layout, textureFor, { x, y });
+
+        // Copy the tile into its place in the band, row by row
+        const pixels = context.getImageData(0, 0, tileWidth, bandHeight).data;
+        for (let row = 0; row < bandHeight; row++) {
+          band.set(pixels.subarray(row * tileWidth * 4, (row + 1) * tileWidth * 4), (row * width + x) * 4);
+        }
+
+        tile++;
+        onProgress?.({ tile, tiles });
+        await new Promise(resolve => setTimeout(resolve, 0)); // Let the page breathe between tiles
+      }
+
+      await png.writeRows(band, bandHeight);
+    }
+
+    const name = options.name ?? `proliferation-poster-${width}x${height}`;
+    return { blob: await png.finish(), filename: `${name}.png`, frames: 1 };
+  } finally {
+    graphics.remove();
+  }
+}
@@ -0,0 +1,62 @@
+import { crc32 } from './crc32';
+
+// Minimal zip writer for frame sequences. PNGs are already compressed, so
+// entries are STOREd as-is and the archive is just headers around the bytes.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Pack files into an uncompressed zip archive
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed to extract
+    local.setUint16(8, 0, true); // Method: STORE
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true); // Compressed size
+    local.setUint32(22, size, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, entry.data);
+
+    // Central directory record pointing back at the local header
+    const record = new DataView(new ArrayBuffer(46 + name.length));
+    record.setUint32(0, 0x02014b50, true);
+    record.setUint16(4, 20, true); // Version made by
+    record.setUint16(6, 20, true); // Version needed to extract
+    record.setUint16(10, 0, true); // Method: STORE
+    record.setUint32(16, crc, true);
+    record.setUint32(20, size, true);
+    record.setUint32(24, size, true);
+    record.setUint16(28, name.length, true);
+    record.setUint32(42, offset, true);
+    new Uint8Array(record.buffer).set(name, 46);
+    central.push(new Uint8Array(record.buffer));
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((total, record) => total + record.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Entries in total
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Where the central directory starts
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+}
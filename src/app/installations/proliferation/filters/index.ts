@@ -0,0 +1,4 @@
+export { applyFilters, parseHexColor, pipelineKey } from './pipeline';
+export type { Filter, FilterPipeline } from './pipeline';
+export { FILTER_PRESETS, filterPreset, presetFilters } from './presets';
+export type { FilterPreset } from './presets';
@@ -0,0 +1,145 @@
+// --- Image filters ---
+// A filter pipeline is a list of steps applied in order to a texture's RGBA
+// pixels, e.g. [contrast, threshold with dither, duotone] for a two-tone print.
+// Colors are '#rrggbb' strings.
+
+export type Filter =
+  | { type: 'grayscale' }
+  | { type: 'sepia'; amount?: number } // 0-1 (default 1)
+  | { type: 'duotone'; dark: string; light: string } // Shadows to dark, highlights to light
+  | { type: 'posterize'; levels: number } // Levels per channel, 2 or more
+  | { type: 'threshold'; level?: number; dither?: boolean } // Black and white around level (default 128); dither spreads the error
+  | { type: 'hueShift'; degrees: number }
+  | { type: 'contrast'; amount: number }; // 1 = unchanged, 0 = flat grey, 2 = doubled
+
+export type FilterPipeline = Filter[];
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b; // Standard grayscale conversion
+
+/**
+ * '#rrggbb' (or '#rgb') as [r, g, b]
+ */
+export function parseHexColor(color: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) {
+    throw new Error(`Invalid color "${color}" (expected #rrggbb)`);
+  }
+  const hex = match[1].length === 3 ? match[1].split('').map(ch => ch + ch).join('') : match[1];
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+// Per-pixel filters map one pixel's RGB to a new RGB
+type PixelMap = (r: number, g: number, b: number) => [number, number, number];
+
+function pixelMap(filter: Exclude<Filter, { type: 'threshold' }>): PixelMap {
+  switch (filter.type) {
+    case 'grayscale':
+      return (r, g, b) => {
+        const value = luma(r, g, b);
+        return [value, value, value];
+      };
+
+    case 'sepia': {
+      const amount = Math.min(1, Math.max(0, filter.amount ?? 1));
+      return (r, g, b) => {
+        const sr = 0.393 * r + 0.769 * g + 0.189 * b;
+        const sg = 0.349 * r + 0.686 * g + 0.168 * b;
+        const sb = 0.272 * r + 0.534 * g + 0.131 * b;
+        return [r + (sr - r) * amount, g + (sg - g) * amount, b + (sb - b) * amount];
+      };
+    }
+
+    case 'duotone': {
+      const dark = parseHexColor(filter.dark);
+      const light = parseHexColor(filter.light);
+      return (r, g, b) => {
+        const t = luma(r, g, b) / 255;
+        return [0, 1, 2].map(i => dark[i] + (light[i] - dark[i]) * t) as [number, number, number];
+      };
+    }
+
+    case 'posterize': {
+      const steps = Math.max(1, Math.round(filter.levels) - 1);
+      const quantize = (value: number) => (Math.round((value / 255) * steps) * 255) / steps;
+      return (r, g, b) => [quantize(r), quantize(g), quantize(b)];
+    }
+
+    case 'hueShift': {
+      // Rotation about the grey axis - the same matrix as CSS hue-rotate()
+      const angle = (filter.degrees * Math.PI) / 180;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const m = [
+        0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+        0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+        0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+      ];
+      return (r, g, b) => [
+        m[0] * r + m[1] * g + m[2] * b,
+        m[3] * r + m[4] * g + m[5] * b,
+        m[6] * r + m[7] * g + m[8] * b,
+      ];
+    }
+
+    case 'contrast':
+      return (r, g, b) => [
+        (r - 128) * filter.amount + 128,
+        (g - 128) * filter.amount + 128,
+        (b - 128) * filter.amount + 128,
+      ];
+  }
+}
+
+// Black and white around the level, optionally Floyd-Steinberg dithered so mid-tones become dot patterns
+function threshold(pixels: Uint8ClampedArray, width: number, height: number, level: number, dither: boolean) {
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = luma(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]);
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const out = values[i] >= level ? 255 : 0;
+      if (dither) {
+        const error = values[i] - out;
+        if (x + 1 < width) values[i + 1] += (error * 7) / 16;
+        if (y + 1 < height) {
+          if (x > 0) values[i + width - 1] += (error * 3) / 16;
+          values[i + width] += (error * 5) / 16;
+          if (x + 1 < width) values[i + width + 1] += error / 16;
+        }
+      }
+      pixels[i * 4] = out;
+      pixels[i * 4 + 1] = out;
+      pixels[i * 4 + 2] = out;
+    }
+  }
+}
+
+/**
+ * Run a pipeline over RGBA pixels in place. Alpha is left alone.
+ */
+export function applyFilters(pixels: Uint8ClampedArray, width: number, height: number, pipeline: FilterPipeline) {
+  for (const filter of pipeline) {
+    if (filter.type === 'threshold') {
+      threshold(pixels, width, height, filter.level ?? 128, filter.dither ?? false);
+      continue;
+    }
+
+    const map = pixelMap(filter);
+    for (let i = 0; i < pixels.length; i += 4) {
+      const [r, g, b] = map(pixels[i], pixels[i + 1], pixels[i + 2]);
+      pixels[i] = r; // Uint8ClampedArray rounds and clamps
+      pixels[i + 1] = g;
+      pixels[i + 2] = b;
+    }
+  }
+}
+
+/**
+ * Stable key for a pipeline, so identical pipelines share one filtered texture
+ */
+export function pipelineKey(pipeline: FilterPipeline): string {
+  return JSON.stringify(pipeline);
+}
@@ -0,0 +1,67 @@
+import { BRAND_DARK, BRAND_LIGHT } from '../config';
+import { MATERIAL_IDS } from '../materials';
+import type { FilterPipeline } from './pipeline';
+
+// --- Filter presets ---
+// A color mode is a named preset giving each material its own pipeline. The
+// rotation steps through the presets in this order, one per program change.
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  materials?: Partial<Record<string, FilterPipeline>>; // By material id
+  others?: FilterPipeline; // Materials not listed above (default: unfiltered)
+}
+
+const BRAND_DUOTONE = { type: 'duotone', dark: BRAND_DARK, light: BRAND_LIGHT } as const;
+
+export const FILTER_PRESETS: FilterPreset[] = [
+  { id: 'original', name: 'All in Color' },
+  { id: 'grayscale', name: 'All Grayscale', others: [{ type: 'grayscale' }] },
+  { id: 'grayClay', name: 'Clay Grayscale', materials: { clay: [{ type: 'grayscale' }] } },
+  { id: 'sepia', name: 'Sepia', others: [{ type: 'sepia' }] },
+  { id: 'duotone', name: 'Brand Duotone', others: [BRAND_DUOTONE] },
+  { id: 'poster', name: 'Poster Print', others: [{ type: 'contrast', amount: 1.3 }, { type: 'posterize', levels: 4 }] },
+  {
+    id: 'dithered',
+    name: 'Dithered Clay',
+    materials: { clay: [{ type: 'threshold', dither: true }, BRAND_DUOTONE] },
+    others: [{ type: 'sepia', amount: 0.5 }],
+  },
+  {
+    id: 'kiln',
+    name: 'Kiln Colors',
+    materials: {
+      glazed: [{ type: 'hueShift', degrees: 170 }, { type: 'contrast', amount: 1.2 }],
+      burnt: [{ type: 'contrast', amount: 1.5 }],
+      broken: [{ type: 'grayscale' }],
+    },
+  },
+  { id: 'highContrast', name: 'High Contrast', others: [{ type: 'contrast', amount: 1.6 }] },
+];
+
+for (const preset of FILTER_PRESETS) {
+  for (const id of Object.keys(preset.materials ?? {})) {
+    if (!MATERIAL_IDS.includes(id)) {
+      throw new Error(`Filter preset "${preset.id}" names unknown material "${id}"`);
+    }
+  }
+}
+
+/**
+ * Preset by id - throws on ids that aren't in FILTER_PRESETS
+ */
+export function filterPreset(id: string): FilterPreset {
+  const preset = FILTER_PRESETS.find(p => p.id === id);
+  if (!preset) {
+    throw new Error(`Unknown filter preset "${id}" (expected one of ${FILTER_PRESETS.map(p => p.id).join(', ')})`);
+  }
+  return preset;
+}
+
+/**
+ * The pipeline a preset applies to one material
+ */
+export function presetFilters(preset: FilterPreset, materialId: string): FilterPipeline {
+  return preset.materials?.[materialId] ?? preset.others ?? [];
+}
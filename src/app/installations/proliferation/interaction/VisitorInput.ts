@@ -0,0 +1,139 @@
+import { IDLE_TIMEOUT } from '../config';
+import type { GridPosition } from '../paths';
+import { cellAt } from '../rendering/layout';
+import type { GridLayout } from '../rendering/layout';
+
+export interface VisitorInputHandlers {
+  onActive: () => void; // First input after the installation was running on its own
+  onPaint: (cell: GridPosition) => void; // A drag moved over a cell
+  onSeed: (cell: GridPosition) => void; // A tap (press and release without leaving the cell)
+  onIdle: () => void; // No input for the idle timeout
+}
+
+/**
+ * Turns pointer input on the canvas container into grid gestures. Uses pointer
+ * events so mouse, pen and touch all work, and listens on the container rather
+ * than p5's handlers so clicks on the overlaid controls never reach the grid.
+ */
+export class VisitorInput {
+  private element: HTMLElement;
+  private getLayout: () => GridLayout;
+  private getOffset: () => { x: number; y: number }; // Where the canvas sits in the layout - a video wall screen's place
+  private handlers: VisitorInputHandlers;
+  private idleTimeout: number; // Seconds
+
+  private pointerId: number | null = null;
+  private startCell: GridPosition | null = null;
+  private lastCell: GridPosition | null = null;
+  private dragging: boolean = false;
+  private active: boolean = false;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    element: HTMLElement,
+    getLayout: () => GridLayout,
+    handlers: VisitorInputHandlers,
+    idleTimeout: number = IDLE_TIMEOUT,
+    getOffset: () => { x: number; y: number } = () => ({ x: 0, y: 0 })
+  ) {
+    this.element = element;
+    this.getLayout = getLayout;
+    this.getOffset = getOffset;
+    this.handlers = handlers;
+    this.idleTimeout = idleTimeout;
+
+    this.element.style.touchAction = 'none'; // Dragging paints instead of scrolling the page
+    this.element.addEventListener('pointerdown', this.handlePointerDown);
+    this.element.addEventListener('pointermove', this.handlePointerMove);
+    this.element.addEventListener('pointerup', this.handlePointerUp);
+    this.element.addEventListener('pointercancel', this.handlePointerCancel);
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  private cellFor(event: PointerEvent): GridPosition | null {
+    const rect = this.element.getBoundingClientRect();
+    return cellAt(this.getLayout(), event.clientX - rect.left, event.clientY - rect.top, this.getOffset());
+  }
+
+  // Any input keeps the visitor session alive
+  private touch() {
+    if (!this.active) {
+      this.active = true;
+      this.handlers.onActive();
+    }
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.active = false;
+      this.handlers.onIdle();
+    }, this.idleTimeout * 1000);
+  }
+
+  private handlePointerDown = (event: PointerEvent) => {
+    if (this.pointerId !== null) return; // Only one finger paints at a time
+    this.pointerId = event.pointerId;
+    this.element.setPointerCapture(event.pointerId);
+    this.startCell = this.cellFor(event);
+    this.lastCell = this.startCell;
+    this.dragging = false;
+    this.touch();
+  };
+
+  private handlePointerMove = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return; // Hovering without a press doesn't count
+    const cell = this.cellFor(event);
+    if (!cell || (this.lastCell && cell.r === this.lastCell.r && cell.c === this.lastCell.c)) return;
+
+    if (!this.dragging) {
+      // Leaving the first cell turns the press into a drag - paint where it started too
+      this.dragging = true;
+      if (this.startCell) this.handlers.onPaint(this.startCell);
+    }
+    this.handlers.onPaint(cell);
+    this.lastCell = cell;
+    this.touch();
+  };
+
+  private handlePointerUp = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return;
+    if (!this.dragging && this.startCell) {
+      this.handlers.onSeed(this.startCell);
+    }
+    this.endGesture(event);
+  };
+
+  private handlePointerCancel = (event: PointerEvent) => {
+    if (event.pointerId !== this.pointerId) return;
+    this.endGesture(event);
+  };
+
+  private endGesture(event: PointerEvent) {
+    if (this.element.hasPointerCapture(event.pointerId)) {
+      this.element.releasePointerCapture(event.pointerId);
+    }
+    this.pointerId = null;
+    this.startCell = null;
+    this.lastCell = null;
+    this.dragging = false;
+    this.touch();
+  }
+
+  /**
+   * Stop listening - the container outlives the sketch, so a new one would
+   * otherwise get every gesture twice
+   */
+  dispose() {
+    this.element.removeEventListener('pointerdown', this.handlePointerDown);
+    this.element.removeEventListener('pointermove', this.handlePointerMove);
+    this.element.removeEventListener('pointerup', this.handlePointerUp);
+    this.element.removeEventListener('pointercancel', this.handlePointerCancel);
+    if (this.pointerId !== null && this.element.hasPointerCapture(this.pointerId)) {
+      this.element.releasePointerCapture(this.pointerId);
+    }
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+  }
+}
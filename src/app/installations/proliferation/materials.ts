@@ -0,0 +1,55 @@
+import {
+  BRICK_IMG_PATH,
+  BROKEN_BRICK_IMG_PATH,
+  BURNT_BRICK_IMG_PATH,
+  CLAY_IMG_PATH,
+  GLAZED_BRICK_IMG_PATH,
+  POSTER_IMG_DIR,
+} from './config';
+import { CELL_BRICK, CELL_CLAY } from './types';
+
+export interface Material {
+  id: string; // Used by program params and choreographies ("brick", "glazed", ...)
+  name: string;
+  imagePath: string;
+  fallback?: string; // Material whose texture to borrow if this photo fails to load
+}
+
+// --- Material palette ---
+// A grid cell's value is its index in this list, so clay and brick must stay
+// at CELL_CLAY and CELL_BRICK. Append new photos at the end.
+export const MATERIAL_PALETTE: Material[] = [
+  { id: 'clay', name: 'Clay', imagePath: CLAY_IMG_PATH },
+  { id: 'brick', name: 'Brick', imagePath: BRICK_IMG_PATH },
+  { id: 'glazed', name: 'Glazed Brick', imagePath: GLAZED_BRICK_IMG_PATH, fallback: 'brick' },
+  { id: 'burnt', name: 'Burnt Brick', imagePath: BURNT_BRICK_IMG_PATH, fallback: 'brick' },
+  { id: 'broken', name: 'Broken Brick', imagePath: BROKEN_BRICK_IMG_PATH, fallback: 'brick' },
+];
+
+if (MATERIAL_PALETTE[CELL_CLAY].id !== 'clay' || MATERIAL_PALETTE[CELL_BRICK].id !== 'brick') {
+  throw new Error('MATERIAL_PALETTE must start with clay and brick');
+}
+
+/**
+ * Full-resolution photo for posters - the same file name under POSTER_IMG_DIR
+ */
+export function posterImagePath(material: Material): string {
+  return `${POSTER_IMG_DIR}/${material.imagePath.split('/').pop()}`;
+}
+
+export const MATERIAL_IDS: string[] = MATERIAL_PALETTE.map(material => material.id);
+
+/**
+ * Cell value for a material id - throws on ids that aren't in the palette
+ */
+export function materialIndex(id: string): number {
+  const index = MATERIAL_IDS.indexOf(id);
+  if (index === -1) {
+    throw new Error(`Unknown material "${id}" (expected one of ${MATERIAL_IDS.join(', ')})`);
+  }
+  return index;
+}
+
+export function isMaterialId(id: unknown): id is string {
+  return typeof id === 'string' && MATERIAL_IDS.includes(id);
+}
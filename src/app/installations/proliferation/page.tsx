@@ -1,9 +1,15 @@
 'use client';
 
-import React from 'react';
+import React, { Suspense, useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
 import dynamic from 'next/dynamic'; // Re-enable dynamic import
+import { useSearchParams } from 'next/navigation';
 // import { NextReactP5Wrapper } from '@p5-wrapper/next'; // Remove this
-import { proliferationSketch } from './ProliferationSketch';
+import { createProliferationSketch } from './ProliferationSketch';
+import { ProliferationController } from './controller';
+import PlaybackControls from './components/PlaybackControls';
+import { parseSettings } from './settings';
+import { useRemoteControl } from '../../remote';
+import type { InstallationState, RemoteCommand } from '../../remote';
 
 // Dynamically import ReactP5Wrapper from @p5-wrapper/react
 const DynamicReactP5Wrapper = dynamic(
@@ -14,9 +20,59 @@ const DynamicReactP5Wrapper = dynamic(
   }
 );
 
-export default function ProliferationPage() {
+function ProliferationInstallation() {
+  // Per-venue settings from the query string, e.g. ?preset=portrait&fps=20
+  const query = useSearchParams().toString();
+  const { settings, preset, errors } = useMemo(() => parseSettings(new URLSearchParams(query)), [query]);
+  const [showErrors, setShowErrors] = useState(true);
+
+  // One controller and sketch per page mount, so re-renders don't restart the sketch
+  const controller = useMemo(() => new ProliferationController(), []);
+  const sketch = useMemo(() => createProliferationSketch(controller, settings), [controller, settings]);
+
+  // Remote control from the /control page, when ?remote= names a relay
+  const playback = useSyncExternalStore(controller.subscribe, controller.getState, controller.getState);
+  const remoteState = useMemo<InstallationState>(() => ({
+    installation: 'proliferation',
+    program: playback.program,
+    programs: playback.programs,
+    colorMode: playback.colorMode,
+    colorModes: playback.colorModes,
+  }), [playback.program, playback.programs, playback.colorMode, playback.colorModes]);
+  const handleRemoteCommand = useCallback((command: RemoteCommand) => {
+    if (command.type === 'selectProgram') controller.selectProgram(command.program);
+    else if (command.type === 'setColorMode') controller.setColorMode(command.colorMode);
+  }, [controller]);
+  useRemoteControl(remoteState, handleRemoteCommand, { relay: settings.remoteRelay, name: settings.kioskName });
+
+  useEffect(() => {
+    if (preset) console.log(`🖥️ Using the "${preset}" preset`);
+    errors.forEach(error => console.warn(`⚠️ Ignoring setting: ${error}`));
+    setShowErrors(true);
+  }, [preset, errors]);
+
   return (
     <div className="w-full h-screen flex flex-col bg-black">
+      {/* Bad query parameters - the sketch runs with the defaults for those */}
+      {errors.length > 0 && showErrors && (
+        <div className="absolute top-4 left-4 z-30 max-w-md p-4 bg-red-900 bg-opacity-90 rounded-lg shadow-lg text-red-100 text-xs space-y-1">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-bold">Some settings were ignored</h2>
+            <button onClick={() => setShowErrors(false)} className="ml-4 hover:text-white" aria-label="Dismiss settings errors">
+              Dismiss
+            </button>
+          </div>
+          <ul className="list-disc list-inside">
+            {errors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Playback controls - press H to hide */}
+      <PlaybackControls controller={controller} />
+
       {/* Optional title overlay - remove if you want completely full screen */}
       <div className="absolute bottom-4 right-4 z-10 text-white">
         <h1 className="text-2xl font-bold opacity-80">Brick Proliferates</h1>
@@ -28,7 +84,7 @@ export default function ProliferationPage() {
         className="w-full h-full"
       >
         {/* Use the dynamically imported ReactP5Wrapper */}
-        <DynamicReactP5Wrapper sketch={proliferationSketch} />
+        <DynamicReactP5Wrapper sketch={sketch} />
       </div>
       
       {/* Optional description overlay*/}
@@ -38,4 +94,13 @@ export default function ProliferationPage() {
       </div>
     </div>
   );
-} 
\ No newline at end of file
+} 
+
+export default function ProliferationPage() {
+  // useSearchParams needs a Suspense boundary so the page can still be prerendered
+  return (
+    <Suspense fallback={null}>
+      <ProliferationInstallation />
+    </Suspense>
+  );
+}
@@ -0,0 +1,219 @@
+// Shared path generators. Each returns the grid positions a sweep visits,
+// grouped into "lines" (a row, a diagonal, a ray...) in visiting order.
+
+export interface GridPosition {
+  r: number
+  c: number
+}
+
+/**
+ * Centre cell of the grid, optionally nudged (e.g. one column left) and clamped to the grid
+ */
+export function gridCenter(rows: number, cols: number, offset: [number, number] = [0, 0]): GridPosition {
+  return {
+    r: Math.min(rows - 1, Math.max(0, Math.floor(rows / 2) + offset[0])),
+    c: Math.min(cols - 1, Math.max(0, Math.floor(cols / 2) + offset[1])),
+  };
+}
+
+/**
+ * An explicit centre cell (clamped to the grid), or the grid centre when row/col are negative
+ */
+export function resolveCenter(
+  rows: number,
+  cols: number,
+  row: number,
+  col: number,
+  offset: [number, number] = [0, 0]
+): GridPosition {
+  if (row < 0 || col < 0) return gridCenter(rows, cols, offset);
+  return {
+    r: Math.min(rows - 1, Math.max(0, Math.floor(row))),
+    c: Math.min(cols - 1, Math.max(0, Math.floor(col))),
+  };
+}
+
+/**
+ * Left to right, top to bottom - one line per row
+ */
+export function rowPath(rows: number, cols: number): GridPosition[][] {
+  const lines: GridPosition[][] = [];
+  for (let r = 0; r < rows; r++) {
+    const line: GridPosition[] = [];
+    for (let c = 0; c < cols; c++) {
+      line.push({ r, c });
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Top to bottom, left to right - one line per column
+ */
+export function columnPath(rows: number, cols: number): GridPosition[][] {
+  const lines: GridPosition[][] = [];
+  for (let c = 0; c < cols; c++) {
+    const line: GridPosition[] = [];
+    for (let r = 0; r < rows; r++) {
+      line.push({ r, c });
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Top-left to bottom-right diagonals
+ * Each diagonal is identified by sum of indices (r + c)
+ */
+export function diagonalPath(rows: number, cols: number): GridPosition[][] {
+  const lines: GridPosition[][] = [];
+  for (let sum = 0; sum < rows + cols - 1; sum++) {
+    const line: GridPosition[] = [];
+    for (let r = 0; r < rows; r++) {
+      const c = sum - r;
+      if (c >= 0 && c < cols) {
+        line.push({ r, c });
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Top-right to bottom-left diagonals
+ * Each diagonal is identified by difference of indices (c - r)
+ */
+export function antiDiagonalPath(rows: number, cols: number): GridPosition[][] {
+  const lines: GridPosition[][] = [];
+  for (let diff = cols - 1; diff >= -(rows - 1); diff--) {
+    const line: GridPosition[] = [];
+    for (let r = 0; r < rows; r++) {
+      const c = r + diff;
+      if (c >= 0 && c < cols) {
+        line.push({ r, c });
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Square spiral from the centre outward - one line per ring
+ */
+export function spiralPath(rows: number, cols: number, center: GridPosition): GridPosition[][] {
+  const positions: GridPosition[] = [];
+  const visited = Array(rows).fill(null).map(() => Array(cols).fill(false));
+
+  // Start at center
+  let r = center.r;
+  let c = center.c;
+  positions.push({ r, c });
+  visited[r][c] = true;
+
+  // Directions: right, down, left, up
+  const directions = [
+    { dr: 0, dc: 1 },   // right
+    { dr: 1, dc: 0 },   // down
+    { dr: 0, dc: -1 },  // left
+    { dr: -1, dc: 0 }   // up
+  ];
+
+  let dirIndex = 0;
+  let steps = 1;
+
+  while (positions.length < rows * cols) {
+    for (let i = 0; i < 2; i++) { // Each step count is used twice
+      const dir = directions[dirIndex];
+
+      for (let j = 0; j < steps; j++) {
+        r += dir.dr;
+        c += dir.dc;
+
+        if (r >= 0 && r < rows && c >= 0 && c < cols && !visited[r][c]) {
+          positions.push({ r, c });
+          visited[r][c] = true;
+        }
+      }
+
+      dirIndex = (dirIndex + 1) % 4;
+    }
+    steps++;
+  }
+
+  // The walk finishes each ring before starting the next, so grouping keeps the order
+  const rings: Map<number, GridPosition[]> = new Map();
+  for (const pos of positions) {
+    const ring = Math.max(Math.abs(pos.r - center.r), Math.abs(pos.c - center.c));
+    if (!rings.has(ring)) rings.set(ring, []);
+    rings.get(ring)!.push(pos);
+  }
+  return Array.from(rings.values());
+}
+
+/**
+ * Radial lines (like clock hands) from the centre - one line per ray, each sorted centre to edge.
+ * Rays are in ascending angle order, which reads clockwise on screen (y grows downward).
+ */
+export function radiationPath(rows: number, cols: number, center: GridPosition, numRays: number): GridPosition[][] {
+  const angleStep = (2 * Math.PI) / numRays;
+
+  // Group positions by which ray they belong to
+  const rayPositions: { r: number, c: number, distance: number }[][] = [];
+  for (let i = 0; i < numRays; i++) {
+    rayPositions[i] = [];
+  }
+
+  // Assign each grid position to the closest ray
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      // Calculate angle from center to this position
+      let angle = Math.atan2(r - center.r, c - center.c);
+      if (angle < 0) angle += 2 * Math.PI; // Normalize to 0-2π
+
+      // Find the closest ray
+      const rayIndex = Math.round(angle / angleStep) % numRays;
+
+      // Calculate distance from center
+      const distance = Math.sqrt((r - center.r) ** 2 + (c - center.c) ** 2);
+
+      rayPositions[rayIndex].push({ r, c, distance });
+    }
+  }
+
+  // Sort positions along each ray by distance (center to edge)
+  return rayPositions.map(ray =>
+    ray.sort((a, b) => a.distance - b.distance).map(pos => ({ r: pos.r, c: pos.c }))
+  );
+}
+
+/**
+ * Every cell a straight line through the centre crosses, edge to edge, at the given angle
+ */
+export function linePath(rows: number, cols: number, center: GridPosition, angle: number): GridPosition[] {
+  const positions: GridPosition[] = [];
+
+  // Calculate line direction from angle
+  const dx = Math.cos(angle);
+  const dy = Math.sin(angle);
+
+  // Walk the line from one edge to the other in small steps
+  const maxDist = Math.max(rows, cols) * Math.sqrt(2);
+
+  for (let t = -maxDist; t <= maxDist; t += 0.1) {
+    const r = Math.round(center.r + t * dy);
+    const c = Math.round(center.c + t * dx);
+
+    if (r >= 0 && r < rows && c >= 0 && c < cols) {
+      // Check if we already added this position to avoid duplicates
+      if (!positions.some(pos => pos.r === r && pos.c === c)) {
+        positions.push({ r, c });
+      }
+    }
+  }
+
+  return positions;
+}
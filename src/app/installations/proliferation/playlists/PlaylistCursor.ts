@@ -0,0 +1,77 @@
+import { randomInt } from '../engine/random';
+import type { RandomSource } from '../engine/random';
+import type { Playlist } from './schema';
+
+/**
+ * Picks which playlist entry plays next. Always opens with the first entry;
+ * after that the playlist's mode decides. Uses the engine's seeded random,
+ * so a seed replays the same show.
+ */
+export class PlaylistCursor {
+  private playlist: Playlist;
+  private random: RandomSource;
+  private current: number = 0;
+  private bag: number[] = []; // shuffle: entries not yet played this cycle
+
+  constructor(playlist: Playlist, random: RandomSource) {
+    this.playlist = playlist;
+    this.random = random;
+    this.refillBag();
+  }
+
+  // The opening entry counts as played in the first cycle
+  private refillBag() {
+    this.bag = this.playlist.entries.map((_, index) => index).filter(index => index !== this.current);
+  }
+
+  getCurrent(): number {
+    return this.current;
+  }
+
+  /**
+   * Jump to an entry (e.g. after a resize) without changing what comes next
+   */
+  setCurrent(index: number) {
+    this.current = index;
+    this.bag = this.bag.filter(entry => entry !== index);
+  }
+
+  next(): number {
+    const count = this.playlist.entries.length;
+    if (count <= 1) return this.current;
+
+    switch (this.playlist.mode) {
+      case 'sequence':
+        this.current = (this.current + 1) % count;
+        break;
+
+      case 'random': {
+        // Randomly select the next entry (excluding the current one)
+        let next;
+        do {
+          next = randomInt(this.random, count);
+        } while (next === this.current);
+        this.current = next;
+        break;
+      }
+
+      case 'weighted': {
+        // Roulette wheel over every entry but the current one
+        const weights = this.playlist.entries.map((entry, index) => (index === this.current ? 0 : entry.weight ?? 1));
+        let pick = this.random() * weights.reduce((sum, weight) => sum + weight, 0);
+        let next = weights.findIndex(weight => (pick -= weight) < 0);
+        if (next === -1) next = weights.findLastIndex(weight => weight > 0); // Rounding at the very end of the wheel
+        this.current = next;
+        break;
+      }
+
+      case 'shuffle': {
+        if (this.bag.length === 0) this.refillBag(); // New cycle - everything but what just played
+        const [next] = this.bag.splice(randomInt(this.random, this.bag.length), 1);
+        this.current = next;
+        break;
+      }
+    }
+    return this.current;
+  }
+}
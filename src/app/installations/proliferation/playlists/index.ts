@@ -0,0 +1,3 @@
+export { PLAYLIST_MODES, parsePlaylist, playlistOf } from './schema';
+export type { Playlist, PlaylistEntry, PlaylistMode } from './schema';
+export { PlaylistCursor } from './PlaylistCursor';
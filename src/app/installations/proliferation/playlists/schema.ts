@@ -0,0 +1,150 @@
+import { FILTER_PRESETS } from '../filters';
+import { isMaterialId } from '../materials';
+import type { ProgramDefinition, ProgramParams } from '../programs/registry';
+
+// --- Playlist format ---
+// A playlist scripts the show: which programs run, how the next one is
+// picked after each freeze, and per-entry pacing and color. See
+// public/playlists/*.json for examples.
+
+// sequence: entries in order, looping
+// random:   any entry but the current one, evenly (the original rotation)
+// weighted: like random, but entries with a higher weight come up more often
+// shuffle:  every entry once per cycle in a random order (a shuffle bag)
+export type PlaylistMode = 'sequence' | 'random' | 'weighted' | 'shuffle';
+
+export interface PlaylistEntry {
+  program: string; // Registered program name
+  params?: Partial<ProgramParams>; // Overrides the program's default params for this entry
+  weight?: number; // weighted mode only (default 1)
+  speed?: number; // Speed multiplier while this entry runs (default: the sketch's speed)
+  freeze?: number; // Seconds to hold this entry's finished grid (default: the sketch's freeze)
+  colorMode?: string; // Filter preset to switch to when this entry starts (default: the next in the rotation)
+}
+
+export interface Playlist {
+  name: string;
+  mode: PlaylistMode;
+  entries: PlaylistEntry[];
+}
+
+export const PLAYLIST_MODES: PlaylistMode[] = ['sequence', 'random', 'weighted', 'shuffle'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A playlist that plays the given programs with no overrides
+ */
+export function playlistOf(programs: string[], mode: PlaylistMode, name: string = 'Rotation'): Playlist {
+  return { name, mode, entries: programs.map(program => ({ program })) };
+}
+
+/**
+ * Why an entry's param doesn't fit the program, judged by its default: the
+ * same type, a material or program where the default names one, and numbers
+ * on the default's side of 0 (and within 0-1 for a share). null if it fits.
+ */
+function paramProblem(value: unknown, fallback: ProgramParams[string], programs: readonly string[]): string | null {
+  if (typeof value !== typeof fallback) return `must be a ${typeof fallback}`;
+  if (typeof fallback === 'string') {
+    if (isMaterialId(fallback) && !isMaterialId(value)) return 'must be a material id';
+    if (programs.includes(fallback) && !programs.includes(value as string)) return 'must be a registered program';
+    return null;
+  }
+  if (typeof fallback !== 'number') return null;
+  const number = value as number;
+  if (!Number.isFinite(number)) return 'must be a finite number';
+  if (fallback > 0 && number <= 0) return 'must be above 0';
+  if (fallback === 0 && number < 0) return 'must be 0 or more';
+  if (fallback > 0 && fallback < 1 && number > 1) return 'must be at most 1';
+  return null;
+}
+
+/**
+ * Validate raw JSON (or a hand-written object) as a playlist.
+ * Throws with the offending field in the message so curators can fix their files.
+ * Programs are checked against definitions when given - pass the registered
+ * ones, so a playlist that names a missing program, or gives one params it
+ * doesn't take, never reaches an engine.
+ */
+export function parsePlaylist(raw: unknown, definitions?: readonly ProgramDefinition[]): Playlist {
+  const programs = definitions?.map(definition => definition.name);
+  const fail = (field: string, message: string): never => {
+    const name = isRecord(raw) && typeof raw.name === 'string' ? raw.name : '<unnamed>';
+    throw new Error(`Invalid playlist "${name}": ${field} ${message}`);
+  };
+
+  if (!isRecord(raw)) fail('root', 'must be an object');
+  const source = raw as Record<string, unknown>;
+
+  if (typeof source.name !== 'string' || source.name.length === 0) fail('name', 'must be a non-empty string');
+  if (source.mode !== undefined && !PLAYLIST_MODES.includes(source.mode as PlaylistMode)) {
+    fail('mode', `must be one of ${PLAYLIST_MODES.join(', ')}`);
+  }
+  if (!Array.isArray(source.entries) || source.entries.length === 0) fail('entries', 'must be a non-empty array');
+
+  const positiveNumber = (field: string, value: unknown): number | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+      return fail(field, 'must be a positive number');
+    }
+    return value;
+  };
+
+  const entries = (source.entries as unknown[]).map((entry, index): PlaylistEntry => {
+    const field = `entries[${index}]`;
+    // A bare program name is shorthand for an entry with no overrides
+    if (typeof entry === 'string') {
+      if (programs && !programs.includes(entry)) {
+        fail(field, `must be a registered program, one of ${programs.join(', ')} (got "${entry}")`);
+      }
+      return { program: entry };
+    }
+    if (!isRecord(entry)) return fail(field, 'must be a program name or an object');
+
+    if (typeof entry.program !== 'string' || entry.program.length === 0) {
+      fail(`${field}.program`, 'must be a program name');
+    }
+    if (programs && !programs.includes(entry.program as string)) {
+      fail(`${field}.program`, `must be a registered program, one of ${programs.join(', ')} (got "${entry.program}")`);
+    }
+    if (entry.params !== undefined) {
+      const params = entry.params;
+      if (!isRecord(params) || !Object.values(params).every(v => ['number', 'string', 'boolean'].includes(typeof v))) {
+        fail(`${field}.params`, 'must be an object of numbers, strings and booleans');
+      }
+      const defaults = definitions?.find(definition => definition.name === entry.program)?.defaultParams;
+      if (defaults) {
+        for (const [key, value] of Object.entries(params as Record<string, unknown>)) {
+          if (!(key in defaults)) {
+            fail(`${field}.params.${key}`, `isn't a ${entry.program} param (expected one of ${Object.keys(defaults).join(', ') || 'none'})`);
+          }
+          const problem = paramProblem(value, defaults[key], programs ?? []);
+          if (problem) fail(`${field}.params.${key}`, `${problem} (got ${JSON.stringify(value)})`);
+        }
+      }
+    }
+    if (entry.freeze !== undefined && (typeof entry.freeze !== 'number' || !(entry.freeze >= 0))) {
+      fail(`${field}.freeze`, 'must be a number of seconds, 0 or more');
+    }
+    if (entry.colorMode !== undefined && !FILTER_PRESETS.some(preset => preset.id === entry.colorMode)) {
+      fail(`${field}.colorMode`, `must be one of ${FILTER_PRESETS.map(preset => preset.id).join(', ')}`);
+    }
+
+    return {
+      program: entry.program as string,
+      params: entry.params as Partial<ProgramParams> | undefined,
+      weight: positiveNumber(`${field}.weight`, entry.weight),
+      speed: positiveNumber(`${field}.speed`, entry.speed),
+      freeze: entry.freeze as number | undefined,
+      colorMode: entry.colorMode as string | undefined,
+    };
+  });
+
+  return {
+    name: source.name as string,
+    mode: (source.mode as PlaylistMode | undefined) ?? 'sequence',
+    entries,
+  };
+}
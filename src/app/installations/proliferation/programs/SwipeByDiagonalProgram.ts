@@ -0,0 +1,257 @@
+import { materialIndex } from '../materials';
+import type { Program } from '../types';
+import { MatrixTopology } from '../bonds';
+import type { GridTopology } from '../bonds';
+import { registerProgram } from './registry';
+import type { ProgramParams } from './registry';
+
+export interface SwipeByDiagonalParams extends ProgramParams {
+  material: string; // Material id the sweep paints
+  background: string; // Material id the grid starts as and the sweep clears to
+  maxSwipes: number; // Number of back-and-forth cycles
+}
+
+export const DEFAULT_SWIPE_BY_DIAGONAL_PARAMS: SwipeByDiagonalParams = {
+  material: 'brick',
+  background: 'clay',
+  maxSwipes: 1,
+};
+
+export class SwipeByDiagonalProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private getGridState: () => number[][];
+  private rows: number;
+  private cols: number;
+  private material: number;
+  private background: number;
+
+  private phase: number = 0; // 0: initial, 1: create diagonal1 line, 2: swipe diagonally, 3: create diagonal2 line, 4: swipe diagonally, 5: fill diagonally, 6: done
+  
+  // Diagonal swipe specific variables
+  private diagonal1Positions: { r: number, c: number }[] = []; // Top-left to bottom-right diagonals
+  private diagonal2Positions: { r: number, c: number }[] = []; // Top-right to bottom-left diagonals
+  private fillLines: { r: number, c: number }[][] = []; // The diagonals the last phase fills, one per update
+  private topology: GridTopology;
+  private currentDiagonal1Index: number = 0;
+  private currentDiagonal2Index: number = 0;
+  private diagonal1Direction: number = 1; // 1 = forward, -1 = backward
+  private diagonal2Direction: number = 1; // 1 = forward, -1 = backward
+  private diagonal1SwipeCount: number = 0;
+  private diagonal2SwipeCount: number = 0;
+  private maxSwipes: number; // Number of back-and-forth cycles
+  private fillIndex: number = 0;
+  private currentFillDiagonal: number = 0; // Track which diagonal line we're filling
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    params: SwipeByDiagonalParams = DEFAULT_SWIPE_BY_DIAGONAL_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    this.maxSwipes = params.maxSwipes;
+    this.topology = topology;
+    this.generateDiagonalPaths(topology);
+  }
+
+  private generateDiagonalPaths(topology: GridTopology) {
+    this.fillLines = topology.diagonalPath();
+    this.diagonal1Positions = this.fillLines.flat();
+    this.diagonal2Positions = topology.antiDiagonalPath().flat();
+  }
+
+  reset() {
+    this.phase = 0;
+    this.currentDiagonal1Index = 0;
+    this.currentDiagonal2Index = 0;
+    this.diagonal1Direction = 1;
+    this.diagonal2Direction = 1;
+    this.diagonal1SwipeCount = 0;
+    this.diagonal2SwipeCount = 0;
+    this.fillIndex = 0;
+    this.currentFillDiagonal = 0;
+
+    // Phase 0: Initial fill with the background (clay) - bricks only, holes in a bond stay empty
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (this.topology.has(r, c)) this.updateGridState(r, c, this.background);
+      }
+    }
+    this.phase = 1; // Move to create initial diagonal line
+  }
+
+  update() {
+    if (this.isDone()) return;
+
+    switch (this.phase) {
+      case 1: // Create initial diagonal1 line (first diagonal)
+        // Fill the first diagonal with bricks (top-left to bottom-right)
+        if (this.diagonal1Positions.length > 0) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            if (i < this.diagonal1Positions.length) {
+              const pos = this.diagonal1Positions[i];
+              this.updateGridState(pos.r, pos.c, this.material);
+            }
+          }
+        }
+        this.currentDiagonal1Index = 0;
+        this.phase = 2; // Move to diagonal swipe phase
+        break;
+
+      case 2: // Swipe diagonally (top-left to bottom-right direction)
+        // Clear current diagonal line
+        if (this.currentDiagonal1Index >= 0 && this.currentDiagonal1Index < this.diagonal1Positions.length) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            const idx = this.currentDiagonal1Index + i;
+            if (idx < this.diagonal1Positions.length) {
+              const pos = this.diagonal1Positions[idx];
+              this.updateGridState(pos.r, pos.c, this.background);
+            }
+          }
+        }
+
+        // Move to next diagonal
+        this.currentDiagonal1Index += this.diagonal1Direction * Math.min(this.rows, this.cols);
+
+        // Check boundaries and reverse direction
+        if (this.currentDiagonal1Index >= this.diagonal1Positions.length - Math.min(this.rows, this.cols)) {
+          this.currentDiagonal1Index = this.diagonal1Positions.length - Math.min(this.rows, this.cols);
+          this.diagonal1Direction = -1;
+          this.diagonal1SwipeCount++;
+        } else if (this.currentDiagonal1Index <= 0) {
+          this.currentDiagonal1Index = 0;
+          this.diagonal1Direction = 1;
+          this.diagonal1SwipeCount++;
+        }
+
+        // Draw diagonal line at new position
+        if (this.currentDiagonal1Index >= 0 && this.currentDiagonal1Index < this.diagonal1Positions.length) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            const idx = this.currentDiagonal1Index + i;
+            if (idx < this.diagonal1Positions.length) {
+              const pos = this.diagonal1Positions[idx];
+              this.updateGridState(pos.r, pos.c, this.material);
+            }
+          }
+        }
+
+        // Check if we've completed enough diagonal swipes
+        if (this.diagonal1SwipeCount >= this.maxSwipes * 2) {
+          // Clear the final diagonal line
+          if (this.currentDiagonal1Index >= 0 && this.currentDiagonal1Index < this.diagonal1Positions.length) {
+            for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+              const idx = this.currentDiagonal1Index + i;
+              if (idx < this.diagonal1Positions.length) {
+                const pos = this.diagonal1Positions[idx];
+                this.updateGridState(pos.r, pos.c, this.background);
+              }
+            }
+          }
+          this.phase = 3;
+        }
+        break;
+
+      case 3: // Create initial diagonal2 line (second diagonal)
+        // Fill the first diagonal with bricks (top-right to bottom-left)
+        if (this.diagonal2Positions.length > 0) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            if (i < this.diagonal2Positions.length) {
+              const pos = this.diagonal2Positions[i];
+              this.updateGridState(pos.r, pos.c, this.material);
+            }
+          }
+        }
+        this.currentDiagonal2Index = 0;
+        this.phase = 4; // Move to second diagonal swipe phase
+        break;
+
+      case 4: // Swipe diagonally (top-right to bottom-left direction)
+        // Clear current diagonal line
+        if (this.currentDiagonal2Index >= 0 && this.currentDiagonal2Index < this.diagonal2Positions.length) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            const idx = this.currentDiagonal2Index + i;
+            if (idx < this.diagonal2Positions.length) {
+              const pos = this.diagonal2Positions[idx];
+              this.updateGridState(pos.r, pos.c, this.background);
+            }
+          }
+        }
+
+        // Move to next diagonal
+        this.currentDiagonal2Index += this.diagonal2Direction * Math.min(this.rows, this.cols);
+
+        // Check boundaries and reverse direction
+        if (this.currentDiagonal2Index >= this.diagonal2Positions.length - Math.min(this.rows, this.cols)) {
+          this.currentDiagonal2Index = this.diagonal2Positions.length - Math.min(this.rows, this.cols);
+          this.diagonal2Direction = -1;
+          this.diagonal2SwipeCount++;
+        } else if (this.currentDiagonal2Index <= 0) {
+          this.currentDiagonal2Index = 0;
+          this.diagonal2Direction = 1;
+          this.diagonal2SwipeCount++;
+        }
+
+        // Draw diagonal line at new position
+        if (this.currentDiagonal2Index >= 0 && this.currentDiagonal2Index < this.diagonal2Positions.length) {
+          for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+            const idx = this.currentDiagonal2Index + i;
+            if (idx < this.diagonal2Positions.length) {
+              const pos = this.diagonal2Positions[idx];
+              this.updateGridState(pos.r, pos.c, this.material);
+            }
+          }
+        }
+
+        // Check if we've completed enough diagonal swipes
+        if (this.diagonal2SwipeCount >= this.maxSwipes * 2) {
+          // Clear the final diagonal line
+          if (this.currentDiagonal2Index >= 0 && this.currentDiagonal2Index < this.diagonal2Positions.length) {
+            for (let i = 0; i < Math.min(this.rows, this.cols); i++) {
+              const idx = this.currentDiagonal2Index + i;
+              if (idx < this.diagonal2Positions.length) {
+                const pos = this.diagonal2Positions[idx];
+                this.updateGridState(pos.r, pos.c, this.background);
+              }
+            }
+          }
+          this.phase = 5;
+          this.fillIndex = 0;
+          this.currentFillDiagonal = 0;
+        }
+        break;
+
+      case 5: // Fill remaining cells diagonal line by line
+        if (this.currentFillDiagonal < this.fillLines.length) {
+          // Fill one complete diagonal line (top-left to bottom-right direction)
+          for (const pos of this.fillLines[this.currentFillDiagonal]) {
+            this.updateGridState(pos.r, pos.c, this.material);
+          }
+          this.currentFillDiagonal++;
+        } else {
+          this.phase = 6; // All filled
+        }
+        break;
+    }
+  }
+
+  isDone() {
+    return this.phase === 6;
+  }
+}
+
+registerProgram({
+  name: 'SwipeByDiagonal',
+  description: 'A diagonal band of bricks swipes across the grid in both directions, then diagonals fill in',
+  defaultParams: DEFAULT_SWIPE_BY_DIAGONAL_PARAMS,
+  transition: { style: 'slide' },
+  create: (context, params) => new SwipeByDiagonalProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, params, context.topology
+  ),
+});
@@ -0,0 +1,189 @@
+import { materialIndex } from '../materials';
+import type { Program } from '../types';
+import { MatrixTopology } from '../bonds';
+import type { GridTopology } from '../bonds';
+import type { GridPosition } from '../paths';
+import { registerProgram } from './registry';
+import type { ProgramParams } from './registry';
+
+export interface SwipeByLineParams extends ProgramParams {
+  material: string; // Material id the sweep paints
+  background: string; // Material id the grid starts as and the sweep clears to
+  maxSwipes: number; // Number of back-and-forth cycles
+}
+
+export const DEFAULT_SWIPE_BY_LINE_PARAMS: SwipeByLineParams = {
+  material: 'brick',
+  background: 'clay',
+  maxSwipes: 1,
+};
+
+export class SwipeByLineProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private getGridState: () => number[][];
+  private rows: number;
+  private cols: number;
+  private material: number;
+  private background: number;
+  private rowLines: GridPosition[][]; // Courses, top to bottom
+  private columnLines: GridPosition[][]; // Columns, left to right
+
+  private phase: number = 0; // 0: initial, 1: create vertical line, 2: swipe vertically, 3: create horizontal line, 4: swipe horizontally, 5: fill lines, 6: done
+  
+  // Swipe specific variables
+  private currentRow: number = 0;
+  private currentCol: number = 0;
+  private verticalDirection: number = 1; // 1 = down, -1 = up
+  private horizontalDirection: number = 1; // 1 = right, -1 = left
+  private verticalSwipeCount: number = 0;
+  private horizontalSwipeCount: number = 0;
+  private maxSwipes: number; // Number of back-and-forth cycles
+  private fillRow: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    params: SwipeByLineParams = DEFAULT_SWIPE_BY_LINE_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    this.maxSwipes = params.maxSwipes;
+    this.rowLines = topology.rowPath();
+    this.columnLines = topology.columnPath();
+  }
+
+  private paintLine(line: GridPosition[] | undefined, value: number) {
+    for (const pos of line ?? []) {
+      this.updateGridState(pos.r, pos.c, value);
+    }
+  }
+
+  reset() {
+    this.phase = 0;
+    this.currentRow = 0;
+    this.currentCol = 0;
+    this.verticalDirection = 1;
+    this.horizontalDirection = 1;
+    this.verticalSwipeCount = 0;
+    this.horizontalSwipeCount = 0;
+    this.fillRow = 0;
+
+    // Phase 0: Initial fill with the background (clay)
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+    this.phase = 1; // Move to create initial vertical line
+  }
+
+  update() {
+    if (this.isDone()) return;
+
+    switch (this.phase) {
+      case 1: // Create initial vertical line
+        // Fill the first row with bricks (horizontal line)
+        this.paintLine(this.rowLines[0], this.material);
+        this.currentRow = 0;
+        this.phase = 2; // Move to vertical swipe phase
+        break;
+
+      case 2: // Swipe vertically
+        // Clear current horizontal line
+        this.paintLine(this.rowLines[this.currentRow], this.background);
+
+        // Move to next row
+        this.currentRow += this.verticalDirection;
+
+        // Check boundaries and reverse direction
+        if (this.currentRow >= this.rowLines.length - 1) {
+          this.currentRow = this.rowLines.length - 1;
+          this.verticalDirection = -1;
+          this.verticalSwipeCount++;
+        } else if (this.currentRow <= 0) {
+          this.currentRow = 0;
+          this.verticalDirection = 1;
+          this.verticalSwipeCount++;
+        }
+
+        // Draw horizontal line at new position
+        this.paintLine(this.rowLines[this.currentRow], this.material);
+
+        // Check if we've completed enough vertical swipes
+        if (this.verticalSwipeCount >= this.maxSwipes * 2) {
+          // Clear the final horizontal line
+          this.paintLine(this.rowLines[this.currentRow], this.background);
+          this.phase = 3;
+        }
+        break;
+
+      case 3: // Create initial horizontal line
+        // Fill the first column with bricks (vertical line)
+        this.paintLine(this.columnLines[0], this.material);
+        this.currentCol = 0;
+        this.phase = 4; // Move to horizontal swipe phase
+        break;
+
+      case 4: // Swipe horizontally
+        // Clear current vertical line
+        this.paintLine(this.columnLines[this.currentCol], this.background);
+
+        // Move to next column
+        this.currentCol += this.horizontalDirection;
+
+        // Check boundaries and reverse direction
+        if (this.currentCol >= this.columnLines.length - 1) {
+          this.currentCol = this.columnLines.length - 1;
+          this.horizontalDirection = -1;
+          this.horizontalSwipeCount++;
+        } else if (this.currentCol <= 0) {
+          this.currentCol = 0;
+          this.horizontalDirection = 1;
+          this.horizontalSwipeCount++;
+        }
+
+        // Draw vertical line at new position
+        this.paintLine(this.columnLines[this.currentCol], this.material);
+
+        // Check if we've completed enough horizontal swipes
+        if (this.horizontalSwipeCount >= this.maxSwipes * 2) {
+          // Clear the final vertical line
+          this.paintLine(this.columnLines[this.currentCol], this.background);
+          this.phase = 5;
+          this.fillRow = 0;
+        }
+        break;
+
+      case 5: // Fill remaining cells line by line
+        if (this.fillRow < this.rowLines.length) {
+          // Fill entire row with bricks
+          this.paintLine(this.rowLines[this.fillRow], this.material);
+          this.fillRow++;
+        } else {
+          this.phase = 6; // All filled
+        }
+        break;
+    }
+  }
+
+  isDone() {
+    return this.phase === 6;
+  }
+}
+
+registerProgram({
+  name: 'SwipeByLine',
+  description: 'A full row of bricks swipes down and back, then a full column swipes across and back, then rows fill in',
+  defaultParams: DEFAULT_SWIPE_BY_LINE_PARAMS,
+  transition: { style: 'slide' },
+  create: (context, params) => new SwipeByLineProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, params, context.topology
+  ),
+});
@@ -0,0 +1,203 @@
+import { materialIndex } from '../materials';
+import type { Program } from '../types';
+import { MatrixTopology } from '../bonds';
+import type { GridTopology } from '../bonds';
+import { DEFAULT_CENTER, registerProgram } from './registry';
+import type { CenteredParams, ProgramParams } from './registry';
+
+export interface SwipeByRadiationParams extends ProgramParams, CenteredParams {
+  material: string; // Material id the sweep paints
+  background: string; // Material id the grid starts as and the sweep clears to
+  maxRotations: number; // Number of complete rotations in each direction
+  rotationSteps: number; // Steps per full rotation of the scanning line
+  numRays: number; // Number of rays used by the fill phase
+}
+
+export const DEFAULT_SWIPE_BY_RADIATION_PARAMS: SwipeByRadiationParams = {
+  material: 'brick',
+  background: 'clay',
+  maxRotations: 1,
+  rotationSteps: 24,
+  numRays: 24,
+  ...DEFAULT_CENTER,
+};
+
+export class SwipeByRadiationProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private getGridState: () => number[][];
+  private rows: number;
+  private cols: number;
+  private material: number;
+  private background: number;
+  private topology: GridTopology;
+
+  private phase: number = 0; // 0: initial, 1: create center line, 2: rotate clockwise, 3: rotate counterclockwise, 4: fill clockwise, 5: done
+  
+  // Radiation swipe specific variables
+  private centerR: number = 0;
+  private centerC: number = 0;
+  private currentAngle: number = 0; // Current rotation angle in radians
+  private clockwiseRotationCount: number = 0;
+  private counterclockwiseRotationCount: number = 0;
+  private maxRotations: number; // Number of complete rotations
+  private angleStep: number; // 15 degrees per step with the default 24 steps per full rotation
+  private numRays: number;
+  
+  // For filling phase - reuse radiation pattern from ScanByRadiation
+  private clockwiseRays: { r: number, c: number }[][] = [];
+  private currentFillRay: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    params: SwipeByRadiationParams = DEFAULT_SWIPE_BY_RADIATION_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    this.maxRotations = params.maxRotations;
+    this.angleStep = (2 * Math.PI) / params.rotationSteps;
+    this.numRays = params.numRays;
+    this.topology = topology;
+    const center = topology.resolveCenter(params.centerRow, params.centerCol);
+    this.centerR = center.r;
+    this.centerC = center.c;
+    this.generateRadiationRays();
+  }
+
+  private generateRadiationRays() {
+    // Same rays as ScanByRadiation, organized by ray for filling
+    const center = { r: this.centerR, c: this.centerC };
+    this.clockwiseRays = this.topology.radiationPath(center, this.numRays);
+  }
+
+  private getLinePositions(angle: number): { r: number, c: number }[] {
+    // Every cell the line through the center crosses at this angle, edge to edge
+    return this.topology.linePath({ r: this.centerR, c: this.centerC }, angle);
+  }
+
+  private clearLine(positions: { r: number, c: number }[]) {
+    for (const pos of positions) {
+      this.updateGridState(pos.r, pos.c, this.background);
+    }
+  }
+
+  private drawLine(positions: { r: number, c: number }[]) {
+    for (const pos of positions) {
+      this.updateGridState(pos.r, pos.c, this.material);
+    }
+  }
+
+  reset() {
+    this.phase = 0;
+    this.currentAngle = 0; // Start horizontal (0 radians)
+    this.clockwiseRotationCount = 0;
+    this.counterclockwiseRotationCount = 0;
+    this.currentFillRay = 0;
+
+    // Phase 0: Initial fill with the background (clay)
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+    this.phase = 1; // Move to create initial center line
+  }
+
+  update() {
+    if (this.isDone()) return;
+
+    switch (this.phase) {
+      case 1: // Create initial center line (horizontal)
+        const initialLine = this.getLinePositions(this.currentAngle);
+        this.drawLine(initialLine);
+        this.phase = 2; // Move to clockwise rotation
+        break;
+
+      case 2: // Rotate clockwise
+        // Clear current line
+        const currentLine = this.getLinePositions(this.currentAngle);
+        this.clearLine(currentLine);
+
+        // Rotate clockwise (increase angle)
+        this.currentAngle += this.angleStep;
+
+        // Check if we completed a full rotation
+        if (this.currentAngle >= 2 * Math.PI) {
+          this.currentAngle = this.currentAngle % (2 * Math.PI);
+          this.clockwiseRotationCount++;
+          
+          if (this.clockwiseRotationCount >= this.maxRotations) {
+            this.phase = 3; // Move to counterclockwise rotation
+          }
+        }
+
+        // Draw line at new angle
+        const newClockwiseLine = this.getLinePositions(this.currentAngle);
+        this.drawLine(newClockwiseLine);
+        break;
+
+      case 3: // Rotate counterclockwise
+        // Clear current line
+        const currentCCWLine = this.getLinePositions(this.currentAngle);
+        this.clearLine(currentCCWLine);
+
+        // Rotate counterclockwise (decrease angle)
+        this.currentAngle -= this.angleStep;
+
+        // Check if we completed a full rotation
+        if (this.currentAngle <= -2 * Math.PI) {
+          this.currentAngle = this.currentAngle % (2 * Math.PI);
+          this.counterclockwiseRotationCount++;
+          
+          if (this.counterclockwiseRotationCount >= this.maxRotations) {
+            // Clear the final line before moving to fill phase
+            const finalLine = this.getLinePositions(this.currentAngle);
+            this.clearLine(finalLine);
+            this.phase = 4; // Move to filling phase
+            this.currentFillRay = 0;
+          }
+        }
+
+        // Draw line at new angle
+        if (this.phase === 3) { // Only draw if we haven't moved to next phase
+          const newCCWLine = this.getLinePositions(this.currentAngle);
+          this.drawLine(newCCWLine);
+        }
+        break;
+
+      case 4: // Fill by rays in clockwise direction
+        if (this.currentFillRay < this.clockwiseRays.length) {
+          // Fill one complete ray with bricks
+          const rayPositions = this.clockwiseRays[this.currentFillRay];
+          for (const pos of rayPositions) {
+            this.updateGridState(pos.r, pos.c, this.material);
+          }
+          this.currentFillRay++;
+        } else {
+          this.phase = 5; // All filled
+        }
+        break;
+    }
+  }
+
+  isDone() {
+    return this.phase === 5;
+  }
+}
+
+registerProgram({
+  name: 'SwipeByRadiation',
+  description: 'A line through the centre rotates like a clock hand both ways, then the grid fills ray by ray',
+  defaultParams: DEFAULT_SWIPE_BY_RADIATION_PARAMS,
+  transition: { style: 'flip' },
+  create: (context, params) => new SwipeByRadiationProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, params, context.topology
+  ),
+});
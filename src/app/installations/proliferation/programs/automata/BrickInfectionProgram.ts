@@ -0,0 +1,100 @@
+import type { GridTopology } from '../../bonds';
+import { registerProgram } from '../registry';
+import { CellularAutomatonProgram } from './CellularAutomatonProgram';
+import type { AutomatonParams } from './CellularAutomatonProgram';
+
+export interface BrickInfectionParams extends AutomatonParams {
+  seeds: number; // Bricks placed at random to start the infection
+  threshold: number; // Brick neighbours a clay cell needs before it can catch
+  probability: number; // Chance per generation that an exposed clay cell turns brick
+}
+
+export const DEFAULT_BRICK_INFECTION_PARAMS: BrickInfectionParams = {
+  neighbourhood: 'vonNeumann',
+  edges: 'clamp',
+  material: 'brick',
+  background: 'clay',
+  maxGenerations: 500,
+  seeds: 2,
+  threshold: 1,
+  probability: 0.4,
+};
+
+/**
+ * Bricks spread into neighbouring clay like an infection. Bricks never heal,
+ * so the program ends once no clay cell is exposed to enough bricks.
+ */
+export class BrickInfectionProgram extends CellularAutomatonProgram<BrickInfectionParams> {
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: BrickInfectionParams,
+    topology?: GridTopology
+  ) {
+    super(updateGridState, getGridState, rows, cols, random, params, topology);
+    if (this.material === this.background) {
+      throw new Error(`BrickInfection material and background must differ (both "${params.material}")`);
+    }
+    if (!Number.isInteger(params.seeds) || params.seeds < 1) {
+      throw new Error(`BrickInfection seeds must be a whole number of at least 1 (got ${params.seeds})`);
+    }
+  }
+
+  protected seed() {
+    const total = this.rows * this.cols;
+    const isClay = (r: number, c: number) => this.topology.has(r, c) && this.getGridState()[r][c] === this.background;
+    let placed = 0;
+    // Random picks, up to one per cell so a crowded or holey grid can't stall it
+    for (let attempt = 0; attempt < total && placed < this.params.seeds; attempt++) {
+      const index = Math.floor(this.random() * total);
+      const r = Math.floor(index / this.cols);
+      const c = index % this.cols;
+      if (isClay(r, c)) {
+        this.updateGridState(r, c, this.material);
+        placed++;
+      }
+    }
+    // Any seeds still left go in order; more seeds than bricks just infects them all
+    for (let index = 0; index < total && placed < this.params.seeds; index++) {
+      const r = Math.floor(index / this.cols);
+      const c = index % this.cols;
+      if (isClay(r, c)) {
+        this.updateGridState(r, c, this.material);
+        placed++;
+      }
+    }
+  }
+
+  private isExposed(grid: readonly (readonly number[])[], row: number, col: number): boolean {
+    const infected = this.countNeighbours(grid, row, col, this.material);
+    return infected >= this.params.threshold;
+  }
+
+  protected nextState(grid: readonly (readonly number[])[], row: number, col: number): number {
+    if (grid[row][col] === this.material) return this.material;
+    return this.isExposed(grid, row, col) && this.random() < this.params.probability ? this.material : this.background;
+  }
+
+  protected canStillChange(): boolean {
+    const grid = this.getGridState();
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (this.topology.has(r, c) && grid[r][c] === this.background && this.isExposed(grid, r, c)) return true;
+      }
+    }
+    return false;
+  }
+}
+
+registerProgram({
+  name: 'BrickInfection',
+  description: 'A few seed bricks infect the clay around them until nothing exposed is left',
+  defaultParams: DEFAULT_BRICK_INFECTION_PARAMS,
+  transition: { style: 'flip' },
+  create: (context, params) => new BrickInfectionProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
@@ -0,0 +1,147 @@
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import { MatrixTopology } from '../../bonds';
+import type { EdgeMode, GridTopology, Neighbourhood } from '../../bonds';
+import type { ProgramParams } from '../registry';
+
+export interface AutomatonParams extends ProgramParams {
+  neighbourhood: Neighbourhood;
+  edges: EdgeMode; // Plain grid only - masonry bonds always stop at the wall edge
+  material: string; // Material id of "live" cells
+  background: string; // Material id of "dead" cells - the grid starts as this
+  maxGenerations: number; // Hard stop in case the rule never settles or repeats
+}
+
+/**
+ * Shared loop for automaton-driven programs: seed the grid in reset(), then
+ * each update() computes one generation for every cell at once. The program
+ * ends when a generation changes nothing, or the grid repeats an earlier state.
+ */
+export abstract class CellularAutomatonProgram<P extends AutomatonParams = AutomatonParams> implements Program {
+  protected updateGridState: (row: number, col: number, value: number) => void;
+  protected getGridState: () => number[][];
+  protected rows: number;
+  protected cols: number;
+  protected random: () => number;
+  protected params: P;
+  protected topology: GridTopology;
+  protected material: number;
+  protected background: number;
+
+  protected generation: number = 0;
+  private history: Set<string> = new Set(); // Every state seen so far, for cycle detection
+  private done: boolean = false;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: P,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.topology = topology;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+  }
+
+  /**
+   * Paint the starting pattern - the grid has already been cleared to the background
+   */
+  protected abstract seed(): void;
+
+  /**
+   * State of a cell in the next generation, read from the current grid
+   */
+  protected abstract nextState(grid: readonly (readonly number[])[], row: number, col: number): number;
+
+  /**
+   * Values of the cells touching a cell in the brick layout
+   */
+  protected neighbourValues(grid: readonly (readonly number[])[], row: number, col: number): number[] {
+    return this.topology
+      .neighbours(row, col, this.params.neighbourhood, this.params.edges)
+      .map(pos => grid[pos.r][pos.c]);
+  }
+
+  /**
+   * How many neighbours hold the given value
+   */
+  protected countNeighbours(grid: readonly (readonly number[])[], row: number, col: number, value: number): number {
+    return this.neighbourValues(grid, row, col).filter(v => v === value).length;
+  }
+
+  /**
+   * Stochastic rules can skip a generation by chance; they override this to
+   * say whether any change is still possible so the program doesn't stop early
+   */
+  protected canStillChange(): boolean {
+    return false;
+  }
+
+  private stateKey(grid: readonly (readonly number[])[]): string {
+    return grid.map(row => row.join(',')).join('|');
+  }
+
+  reset() {
+    this.generation = 0;
+    this.history.clear();
+    this.done = false;
+
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+    this.seed();
+    this.history.add(this.stateKey(this.getGridState()));
+  }
+
+  update() {
+    if (this.isDone()) return;
+
+    // Compute the whole next generation before writing any of it
+    const grid = this.getGridState();
+    const next: number[][] = [];
+    let changed = false;
+    for (let r = 0; r < this.rows; r++) {
+      next.push([]);
+      for (let c = 0; c < this.cols; c++) {
+        // Cells with no brick behind them (see BondTopology) never change
+        const value = this.topology.has(r, c) ? this.nextState(grid, r, c) : grid[r][c];
+        next[r].push(value);
+        if (value !== grid[r][c]) changed = true;
+      }
+    }
+
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (next[r][c] !== grid[r][c]) {
+          this.updateGridState(r, c, next[r][c]);
+        }
+      }
+    }
+    this.generation++;
+
+    const key = this.stateKey(next);
+    if (!changed && !this.canStillChange()) {
+      this.done = true; // Stable
+    } else if (changed && this.history.has(key)) {
+      this.done = true; // Repeating - oscillator or cycle
+    } else if (this.generation >= this.params.maxGenerations) {
+      this.done = true;
+    }
+    this.history.add(key);
+  }
+
+  isDone() {
+    return this.done;
+  }
+}
@@ -0,0 +1,59 @@
+import { registerProgram } from '../registry';
+import { CellularAutomatonProgram } from './CellularAutomatonProgram';
+import type { AutomatonParams } from './CellularAutomatonProgram';
+
+export interface GameOfLifeParams extends AutomatonParams {
+  birth: string; // Brick neighbour counts that turn clay into brick ("3" for Conway)
+  survive: string; // Brick neighbour counts that keep a brick alive ("23" for Conway)
+  density: number; // Share of bricks in the random starting soup
+}
+
+export const DEFAULT_GAME_OF_LIFE_PARAMS: GameOfLifeParams = {
+  neighbourhood: 'moore',
+  edges: 'wrap',
+  material: 'brick',
+  background: 'clay',
+  maxGenerations: 200,
+  birth: '3',
+  survive: '23',
+  density: 0.35,
+};
+
+const parseCounts = (digits: string): Set<number> =>
+  new Set(digits.split('').map(Number).filter(n => !Number.isNaN(n)));
+
+/**
+ * Conway's Game of Life (or any B/S variant) with bricks as live cells
+ */
+export class GameOfLifeProgram extends CellularAutomatonProgram<GameOfLifeParams> {
+  private birth: Set<number> = parseCounts(this.params.birth);
+  private survive: Set<number> = parseCounts(this.params.survive);
+
+  protected seed() {
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (this.topology.has(r, c) && this.random() < this.params.density) {
+          this.updateGridState(r, c, this.material);
+        }
+      }
+    }
+  }
+
+  protected nextState(grid: readonly (readonly number[])[], row: number, col: number): number {
+    const live = this.countNeighbours(grid, row, col, this.material);
+    if (grid[row][col] === this.material) {
+      return this.survive.has(live) ? this.material : this.background;
+    }
+    return this.birth.has(live) ? this.material : this.background;
+  }
+}
+
+registerProgram({
+  name: 'GameOfLife',
+  description: 'A random soup of bricks lives and dies by Conway\'s rules until it settles or repeats',
+  defaultParams: DEFAULT_GAME_OF_LIFE_PARAMS,
+  transition: { style: 'crossfade' },
+  create: (context, params) => new GameOfLifeProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
@@ -0,0 +1,51 @@
+import { registerProgram } from '../registry';
+import { CellularAutomatonProgram } from './CellularAutomatonProgram';
+import type { AutomatonParams } from './CellularAutomatonProgram';
+
+export interface MajorityErosionParams extends AutomatonParams {
+  density: number; // Share of bricks in the random starting noise
+}
+
+export const DEFAULT_MAJORITY_EROSION_PARAMS: MajorityErosionParams = {
+  neighbourhood: 'moore',
+  edges: 'clamp',
+  material: 'brick',
+  background: 'clay',
+  maxGenerations: 100,
+  density: 0.5,
+};
+
+/**
+ * Each cell takes the majority material of itself and its neighbours, so
+ * random noise erodes into smooth brick and clay regions. Ties keep the cell.
+ */
+export class MajorityErosionProgram extends CellularAutomatonProgram<MajorityErosionParams> {
+  protected seed() {
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (this.topology.has(r, c) && this.random() < this.params.density) {
+          this.updateGridState(r, c, this.material);
+        }
+      }
+    }
+  }
+
+  protected nextState(grid: readonly (readonly number[])[], row: number, col: number): number {
+    const values = [grid[row][col], ...this.neighbourValues(grid, row, col)];
+    const live = values.filter(v => v === this.material).length;
+    const others = values.length - live; // Every other material counts against it
+    if (live > others) return this.material;
+    if (others > live) return this.background;
+    return grid[row][col];
+  }
+}
+
+registerProgram({
+  name: 'MajorityErosion',
+  description: 'Random brick noise erodes into solid regions as each cell follows its neighbourhood majority',
+  defaultParams: DEFAULT_MAJORITY_EROSION_PARAMS,
+  transition: { style: 'crumble' },
+  create: (context, params) => new MajorityErosionProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
@@ -0,0 +1,7 @@
+// Automaton-driven programs - importing this module registers them
+import './GameOfLifeProgram';
+import './MajorityErosionProgram';
+import './BrickInfectionProgram';
+
+export { CellularAutomatonProgram } from './CellularAutomatonProgram';
+export type { AutomatonParams } from './CellularAutomatonProgram';
@@ -0,0 +1,190 @@
+import type { GridPosition } from '../../paths';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import type { Choreography, Phase, PathSpec } from './schema';
+
+// A phase with its path already expanded into the groups of cells touched per step
+type ResolvedPhase = Phase & { groups: GridPosition[][] };
+
+/**
+ * Runs a choreography as a Program. Paths are generated once per grid size
+ * and brick layout; each update() advances the current phase by one step.
+ */
+export class ChoreographyProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private getGridState: () => number[][];
+  private rows: number;
+  private cols: number;
+
+  private phases: ResolvedPhase[] = [];
+  private phaseIndex: number = 0;
+  private stepIndex: number = 0;
+  private lastCursor: GridPosition[] | null = null; // Cells under the scan cursor
+  private center: GridPosition | null; // Overrides the centre of spiral/radiation paths
+  private topology: GridTopology;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    choreography: Choreography,
+    center: GridPosition | null = null,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.center = center;
+    this.topology = topology;
+    this.resolvePhases(choreography);
+  }
+
+  private generatePath(spec: PathSpec): GridPosition[][] {
+    const center = this.center ?? this.topology.resolveCenter(-1, -1, spec.centerOffset);
+    let lines: GridPosition[][];
+    switch (spec.type) {
+      case 'rows':
+        lines = this.topology.rowPath();
+        break;
+      case 'columns':
+        lines = this.topology.columnPath();
+        break;
+      case 'diagonal':
+        lines = this.topology.diagonalPath();
+        break;
+      case 'antiDiagonal':
+        lines = this.topology.antiDiagonalPath();
+        break;
+      case 'spiral':
+        lines = this.topology.spiralPath(center);
+        break;
+      case 'radiation':
+        lines = this.topology.radiationPath(center, spec.rays ?? 24);
+        break;
+    }
+    lines = lines.filter(line => line.length > 0);
+    if (spec.reverseLines) lines.reverse();
+
+    // Default is one cell per path entry
+    return spec.groupBy === 'line' ? lines : lines.flat().map(pos => [pos]);
+  }
+
+  private resolvePhases(choreography: Choreography) {
+    const paths: Map<string, GridPosition[][]> = new Map();
+    for (const [id, spec] of Object.entries(choreography.paths)) {
+      paths.set(id, this.generatePath(spec));
+    }
+
+    this.phases = choreography.phases.map((phase): ResolvedPhase => {
+      if (phase.action === 'fill') return { ...phase, groups: [] };
+      if (phase.action === 'hold') return { ...phase, groups: Array(phase.steps).fill([]) };
+
+      let entries = [...paths.get(phase.path)!];
+      if (phase.reverse) entries.reverse();
+      if (phase.action === 'scan' && phase.pingPong) {
+        // Turn around at the end without repeating the last entry
+        entries = entries.concat(entries.slice(0, -1).reverse());
+      }
+
+      // Merge every stepSize entries into a single step
+      const stepSize = phase.stepSize ?? 1;
+      const groups: GridPosition[][] = [];
+      for (let i = 0; i < entries.length; i += stepSize) {
+        groups.push(entries.slice(i, i + stepSize).flat());
+      }
+      return { ...phase, groups };
+    });
+  }
+
+  // Run any fill phases at the current position - they take no animation step
+  private runInstantPhases() {
+    while (this.phaseIndex < this.phases.length && this.phases[this.phaseIndex].action === 'fill') {
+      const phase = this.phases[this.phaseIndex];
+      if (phase.action === 'fill') {
+        for (let r = 0; r < this.rows; r++) {
+          for (let c = 0; c < this.cols; c++) {
+            this.updateGridState(r, c, materialIndex(phase.material));
+          }
+        }
+      }
+      this.phaseIndex++;
+    }
+  }
+
+  private nextPhase() {
+    this.phaseIndex++;
+    this.stepIndex = 0;
+    this.lastCursor = null;
+    this.runInstantPhases();
+  }
+
+  reset() {
+    this.phaseIndex = 0;
+    this.stepIndex = 0;
+    this.lastCursor = null;
+    this.runInstantPhases();
+  }
+
+  update() {
+    if (this.isDone()) return;
+
+    const phase = this.phases[this.phaseIndex];
+    const step = phase.groups[this.stepIndex];
+
+    switch (phase.action) {
+      case 'scan': {
+        // Clear the cursor's previous position
+        if (this.lastCursor) {
+          const trail = materialIndex(phase.trail ?? 'clay');
+          for (const pos of this.lastCursor) {
+            this.updateGridState(pos.r, pos.c, trail);
+          }
+          this.lastCursor = null;
+        }
+
+        if (step) {
+          for (const pos of step) {
+            this.updateGridState(pos.r, pos.c, materialIndex(phase.material));
+          }
+          this.lastCursor = step;
+          this.stepIndex++;
+        } else {
+          this.nextPhase();
+        }
+        break;
+      }
+
+      case 'reveal': {
+        if (step) {
+          const grid = this.getGridState();
+          const replace = phase.replace !== undefined ? materialIndex(phase.replace) : null;
+          for (const pos of step) {
+            if (replace === null || grid[pos.r][pos.c] === replace) {
+              this.updateGridState(pos.r, pos.c, materialIndex(phase.material));
+            }
+          }
+          this.stepIndex++;
+        } else {
+          this.nextPhase();
+        }
+        break;
+      }
+
+      case 'hold':
+        if (step) {
+          this.stepIndex++;
+        } else {
+          this.nextPhase();
+        }
+        break;
+    }
+  }
+
+  isDone() {
+    return this.phaseIndex >= this.phases.length;
+  }
+}
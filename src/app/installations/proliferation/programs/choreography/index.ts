@@ -0,0 +1,44 @@
+import { DEFAULT_CENTER, registerProgram } from '../registry';
+import type { CenteredParams } from '../registry';
+import { ChoreographyProgram } from './ChoreographyProgram';
+import { parseChoreography } from './schema';
+import type { Choreography } from './schema';
+import scanByLine from './library/scanByLine.json';
+import scanBySpiral from './library/scanBySpiral.json';
+import scanByDiagonal from './library/scanByDiagonal.json';
+import scanByRadiation from './library/scanByRadiation.json';
+
+/**
+ * Register a choreography (raw JSON or a typed object) as a program.
+ * Choreographies with a spiral or radiation path can be seeded at a cell.
+ */
+export function registerChoreography(raw: unknown): Choreography {
+  const choreography = parseChoreography(raw);
+  const centered = Object.values(choreography.paths).some(path => path.type === 'spiral' || path.type === 'radiation');
+  registerProgram<Partial<CenteredParams>>({
+    name: choreography.name,
+    description: choreography.description,
+    defaultParams: centered ? { ...DEFAULT_CENTER } : {},
+    transition: choreography.transition,
+    create: (context, params) => {
+      // An explicit centre replaces every path's own centre and centerOffset
+      const row = params.centerRow ?? -1;
+      const col = params.centerCol ?? -1;
+      const center = row >= 0 && col >= 0 ? context.topology.resolveCenter(row, col) : null;
+      return new ChoreographyProgram(
+        context.updateGridState, context.getGridState, context.rows, context.cols, choreography, center, context.topology
+      );
+    },
+  });
+  return choreography;
+}
+
+// Built-in choreographies, in rotation order
+registerChoreography(scanByLine);
+registerChoreography(scanBySpiral);
+registerChoreography(scanByDiagonal);
+registerChoreography(scanByRadiation);
+
+export { ChoreographyProgram } from './ChoreographyProgram';
+export { parseChoreography } from './schema';
+export type { Choreography, Phase, PathSpec, MaterialName } from './schema';
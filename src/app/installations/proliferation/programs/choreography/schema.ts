@@ -0,0 +1,197 @@
+import { MATERIAL_IDS, isMaterialId } from '../../materials';
+import { TRANSITION_STYLES } from '../../types';
+import type { TransitionSpec, TransitionStyle } from '../../types';
+
+// --- Choreography format ---
+// A choreography describes a sweep as data: named paths over the grid and a
+// list of phases that walk them. See library/*.json for examples.
+
+// Any material id from the palette (materials.ts)
+export type MaterialName = string;
+
+export type PathType = 'rows' | 'columns' | 'diagonal' | 'antiDiagonal' | 'spiral' | 'radiation';
+
+export interface PathSpec {
+  type: PathType;
+  groupBy?: 'cell' | 'line'; // Step one cell at a time (default) or a whole line (row, ring, ray...) at a time
+  centerOffset?: [number, number]; // spiral/radiation: [rows, cols] nudge from the grid centre
+  rays?: number; // radiation: number of rays (default 24)
+  reverseLines?: boolean; // Visit the lines in reverse order, keeping each line's own direction
+}
+
+// Instantly paint every cell - takes no animation step
+export interface FillPhase {
+  action: 'fill';
+  material: MaterialName;
+}
+
+// A cursor walks the path, leaving the trail material behind it
+export interface ScanPhase {
+  action: 'scan';
+  path: string;
+  material: MaterialName;
+  trail?: MaterialName; // What the cursor leaves behind (default clay)
+  reverse?: boolean;
+  pingPong?: boolean; // Walk to the end and back again
+  stepSize?: number; // Path entries per step (default 1)
+}
+
+// Cells along the path are painted for good
+export interface RevealPhase {
+  action: 'reveal';
+  path: string;
+  material: MaterialName;
+  replace?: MaterialName; // Only paint cells currently holding this material
+  reverse?: boolean;
+  stepSize?: number;
+}
+
+// Do nothing for a number of steps
+export interface HoldPhase {
+  action: 'hold';
+  steps: number;
+}
+
+export type Phase = FillPhase | ScanPhase | RevealPhase | HoldPhase;
+
+export interface Choreography {
+  name: string;
+  description: string;
+  paths: Record<string, PathSpec>;
+  phases: Phase[];
+  transition?: Partial<TransitionSpec>; // How cells animate when the sweep flips them
+}
+
+const PATH_TYPES: PathType[] = ['rows', 'columns', 'diagonal', 'antiDiagonal', 'spiral', 'radiation'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validate raw JSON (or a hand-written object) as a choreography.
+ * Throws with the offending field in the message so artists can fix their files.
+ */
+export function parseChoreography(raw: unknown): Choreography {
+  const fail = (field: string, message: string): never => {
+    const name = isRecord(raw) && typeof raw.name === 'string' ? raw.name : '<unnamed>';
+    throw new Error(`Invalid choreography "${name}": ${field} ${message}`);
+  };
+
+  if (!isRecord(raw)) fail('root', 'must be an object');
+  const source = raw as Record<string, unknown>;
+
+  if (typeof source.name !== 'string' || source.name.length === 0) fail('name', 'must be a non-empty string');
+  if (typeof source.description !== 'string') fail('description', 'must be a string');
+  if (!isRecord(source.paths)) fail('paths', 'must be an object of named paths');
+  if (!Array.isArray(source.phases) || source.phases.length === 0) fail('phases', 'must be a non-empty array');
+
+  const material = (field: string, value: unknown, optional = false): MaterialName | undefined => {
+    if (value === undefined && optional) return undefined;
+    if (!isMaterialId(value)) {
+      return fail(field, `must be one of ${MATERIAL_IDS.join(', ')}`);
+    }
+    return value;
+  };
+
+  const positiveInteger = (field: string, value: unknown, optional = true): number | undefined => {
+    if (value === undefined && optional) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      return fail(field, 'must be a positive integer');
+    }
+    return value;
+  };
+
+  const flag = (field: string, value: unknown): boolean | undefined => {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'boolean') return fail(field, 'must be true or false');
+    return value;
+  };
+
+  const paths: Record<string, PathSpec> = {};
+  for (const [id, spec] of Object.entries(source.paths as Record<string, unknown>)) {
+    const field = `paths.${id}`;
+    if (!isRecord(spec)) fail(field, 'must be an object');
+    const pathSpec = spec as Record<string, unknown>;
+    if (!PATH_TYPES.includes(pathSpec.type as PathType)) {
+      fail(`${field}.type`, `must be one of ${PATH_TYPES.join(', ')}`);
+    }
+    if (pathSpec.groupBy !== undefined && pathSpec.groupBy !== 'cell' && pathSpec.groupBy !== 'line') {
+      fail(`${field}.groupBy`, 'must be "cell" or "line"');
+    }
+    const offset = pathSpec.centerOffset;
+    if (offset !== undefined && (!Array.isArray(offset) || offset.length !== 2 || !offset.every(Number.isInteger))) {
+      fail(`${field}.centerOffset`, 'must be a pair of integers [rows, cols]');
+    }
+    paths[id] = {
+      type: pathSpec.type as PathType,
+      groupBy: pathSpec.groupBy as PathSpec['groupBy'],
+      centerOffset: offset as [number, number] | undefined,
+      rays: positiveInteger(`${field}.rays`, pathSpec.rays),
+      reverseLines: flag(`${field}.reverseLines`, pathSpec.reverseLines),
+    };
+  }
+
+  const pathId = (field: string, value: unknown): string => {
+    if (typeof value !== 'string' || !(value in paths)) {
+      return fail(field, `must name one of the defined paths (${Object.keys(paths).join(', ') || 'none defined'})`);
+    }
+    return value;
+  };
+
+  const phases: Phase[] = (source.phases as unknown[]).map((entry, index): Phase => {
+    const field = `phases[${index}]`;
+    if (!isRecord(entry)) return fail(field, 'must be an object');
+
+    switch (entry.action) {
+      case 'fill':
+        return { action: 'fill', material: material(`${field}.material`, entry.material)! };
+      case 'scan':
+        return {
+          action: 'scan',
+          path: pathId(`${field}.path`, entry.path),
+          material: material(`${field}.material`, entry.material)!,
+          trail: material(`${field}.trail`, entry.trail, true),
+          reverse: flag(`${field}.reverse`, entry.reverse),
+          pingPong: flag(`${field}.pingPong`, entry.pingPong),
+          stepSize: positiveInteger(`${field}.stepSize`, entry.stepSize),
+        };
+      case 'reveal':
+        return {
+          action: 'reveal',
+          path: pathId(`${field}.path`, entry.path),
+          material: material(`${field}.material`, entry.material)!,
+          replace: material(`${field}.replace`, entry.replace, true),
+          reverse: flag(`${field}.reverse`, entry.reverse),
+          stepSize: positiveInteger(`${field}.stepSize`, entry.stepSize),
+        };
+      case 'hold':
+        return { action: 'hold', steps: positiveInteger(`${field}.steps`, entry.steps, false)! };
+      default:
+        return fail(`${field}.action`, 'must be one of fill, scan, reveal, hold');
+    }
+  });
+
+  let transition: Partial<TransitionSpec> | undefined;
+  if (source.transition !== undefined) {
+    if (!isRecord(source.transition)) fail('transition', 'must be an object');
+    const spec = source.transition as Record<string, unknown>;
+    if (spec.style !== undefined && !TRANSITION_STYLES.includes(spec.style as TransitionStyle)) {
+      fail('transition.style', `must be one of ${TRANSITION_STYLES.join(', ')}`);
+    }
+    if (spec.duration !== undefined && (typeof spec.duration !== 'number' || !(spec.duration >= 0))) {
+      fail('transition.duration', 'must be a number of seconds, 0 or more');
+    }
+    transition = {
+      style: spec.style as TransitionStyle | undefined,
+      duration: spec.duration as number | undefined,
+    };
+  }
+
+  return {
+    name: source.name as string,
+    description: source.description as string,
+    paths,
+    phases,
+    transition,
+  };
+}
@@ -0,0 +1,51 @@
+import type { ProgramContext } from '../../types';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+
+/**
+ * A private rows x cols grid for a combinator's child program. The child
+ * reads and writes it through its own context as if it owned the whole wall;
+ * every write is also passed to onWrite so the combinator can place it.
+ * Writes to cells the topology has no brick for are dropped.
+ */
+export class ChildGrid {
+  readonly rows: number;
+  readonly cols: number;
+  readonly grid: number[][];
+  readonly context: ProgramContext;
+
+  constructor(
+    parent: ProgramContext,
+    rows: number,
+    cols: number,
+    onWrite: (row: number, col: number, value: number) => void,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.rows = rows;
+    this.cols = cols;
+    this.grid = Array(rows).fill(null).map(() => Array(cols).fill(0));
+    this.context = {
+      updateGridState: (row, col, value) => {
+        if (!topology.has(row, col)) return;
+        this.grid[row][col] = value;
+        onWrite(row, col, value);
+      },
+      getGridState: () => this.grid,
+      rows,
+      cols,
+      random: parent.random, // Shared, so the whole composition replays from the engine's seed
+      topology,
+    };
+  }
+
+  /**
+   * Copy cells in without reporting them - in place, the child holds on to the grid
+   */
+  load(read: (row: number, col: number) => number) {
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.grid[r][c] = read(r, c);
+      }
+    }
+  }
+}
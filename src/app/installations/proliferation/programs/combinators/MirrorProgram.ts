@@ -0,0 +1,84 @@
+import type { Program, ProgramContext } from '../../types';
+import { cropTopology } from '../../bonds';
+import type { ProgramFactory } from '../registry';
+import { ChildGrid } from './ChildGrid';
+
+// horizontal:   the left half is reflected onto the right
+// vertical:     the top half is reflected onto the bottom
+// kaleidoscope: the top left quarter is reflected into all four quarters
+export type MirrorAxis = 'horizontal' | 'vertical' | 'kaleidoscope';
+
+export const MIRROR_AXES: MirrorAxis[] = ['horizontal', 'vertical', 'kaleidoscope'];
+
+/**
+ * Runs one program on a half (or quarter) of the grid and paints every cell
+ * it writes at its mirror images too. On odd sizes the middle row/column is
+ * its own reflection. On a bond each course is reflected within its own
+ * bricks, and reflections that land on a hole are left out.
+ */
+export class MirrorProgram implements Program {
+  private grid: ChildGrid;
+  private program: Program;
+  private getGridState: () => number[][];
+
+  constructor(context: ProgramContext, axis: MirrorAxis, program: ProgramFactory) {
+    const { rows, cols, topology } = context;
+    const mirrorCols = axis !== 'vertical';
+    const mirrorRows = axis !== 'horizontal';
+    this.getGridState = context.getGridState;
+
+    // Bricks in each row - a bond's courses fill their rows from the left and can stop short
+    const lengths = Array.from({ length: rows }, (_, r) => {
+      let length = 0;
+      while (length < cols && topology.has(r, length)) length++;
+      return length;
+    });
+    const ragged = lengths.some(length => length !== cols);
+    const span = (row: number) => (mirrorCols ? Math.ceil(lengths[row] / 2) : lengths[row]); // Cells the child fills in a row
+
+    // Columns of a row that cell c of the child's row stands for - just c on a plain grid, a
+    // proportional share when a course is longer or shorter than the one it reflects
+    const columnsFor = (childRow: number, c: number, row: number): number[] => {
+      if (row === childRow || span(childRow) === span(row)) return [c];
+      const scale = span(row) / span(childRow);
+      const first = Math.floor(c * scale);
+      const last = Math.max(first, Math.ceil((c + 1) * scale) - 1);
+      return Array.from({ length: last - first + 1 }, (_, i) => first + i);
+    };
+    const region = { row: 0, col: 0, rows: mirrorRows ? Math.ceil(rows / 2) : rows, cols: mirrorCols ? Math.ceil(cols / 2) : cols };
+
+    this.grid = new ChildGrid(
+      context,
+      region.rows,
+      region.cols,
+      (r, c, value) => {
+        // A Set drops the duplicates on the middle row/column
+        const targetRows = new Set(mirrorRows ? [r, rows - 1 - r] : [r]);
+        for (const row of targetRows) {
+          const columns = columnsFor(r, c, row);
+          const targetCols = new Set(mirrorCols ? columns.flatMap(col => [col, lengths[row] - 1 - col]) : columns);
+          for (const col of targetCols) {
+            if (topology.has(row, col)) context.updateGridState(row, col, value);
+          }
+        }
+      },
+      // On a ragged bond the child gets the left half of each course, however long
+      cropTopology(topology, region, ragged && mirrorCols ? (r, c) => c < Math.ceil(lengths[r] / 2) : undefined)
+    );
+    this.program = program(this.grid.context);
+  }
+
+  reset() {
+    const parent = this.getGridState();
+    this.grid.load((r, c) => parent[r][c]);
+    this.program.reset();
+  }
+
+  update() {
+    this.program.update();
+  }
+
+  isDone(): boolean {
+    return this.program.isDone();
+  }
+}
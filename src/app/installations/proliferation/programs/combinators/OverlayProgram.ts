@@ -0,0 +1,70 @@
+import type { Program, ProgramContext } from '../../types';
+import type { ProgramFactory } from '../registry';
+import { ChildGrid } from './ChildGrid';
+
+// How two cells combine. A cell is "on" when it holds anything but the background;
+// an on result keeps the first program's material where it is on, else the second's.
+export type OverlayOperator = 'and' | 'or' | 'xor';
+
+export const OVERLAY_OPERATORS: OverlayOperator[] = ['and', 'or', 'xor'];
+
+/**
+ * Runs two programs over the whole grid at once, each on a private copy, and
+ * shows their cells combined with AND, OR or XOR. Both step together; the
+ * overlay is done when both are.
+ */
+export class OverlayProgram implements Program {
+  private first: { grid: ChildGrid; program: Program };
+  private second: { grid: ChildGrid; program: Program };
+  private getGridState: () => number[][];
+
+  constructor(
+    context: ProgramContext,
+    operator: OverlayOperator,
+    first: ProgramFactory,
+    second: ProgramFactory,
+    background: number
+  ) {
+    this.getGridState = context.getGridState;
+
+    const combine = (a: number, b: number): number => {
+      const aOn = a !== background;
+      const bOn = b !== background;
+      switch (operator) {
+        case 'and':
+          return aOn && bOn ? a : background;
+        case 'or':
+          return aOn ? a : b;
+        case 'xor':
+          return aOn !== bOn ? (aOn ? a : b) : background;
+      }
+    };
+    const onWrite = (r: number, c: number) => {
+      context.updateGridState(r, c, combine(this.first.grid.grid[r][c], this.second.grid.grid[r][c]));
+    };
+
+    // Both copies share the wall's bricks, so each program sees the real bond
+    const firstGrid = new ChildGrid(context, context.rows, context.cols, onWrite, context.topology);
+    const secondGrid = new ChildGrid(context, context.rows, context.cols, onWrite, context.topology);
+    this.first = { grid: firstGrid, program: first(firstGrid.context) };
+    this.second = { grid: secondGrid, program: second(secondGrid.context) };
+  }
+
+  reset() {
+    // Both start from what's on the wall before either resets
+    const parent = this.getGridState();
+    this.first.grid.load((r, c) => parent[r][c]);
+    this.second.grid.load((r, c) => parent[r][c]);
+    this.first.program.reset();
+    this.second.program.reset();
+  }
+
+  update() {
+    if (!this.first.program.isDone()) this.first.program.update();
+    if (!this.second.program.isDone()) this.second.program.update();
+  }
+
+  isDone(): boolean {
+    return this.first.program.isDone() && this.second.program.isDone();
+  }
+}
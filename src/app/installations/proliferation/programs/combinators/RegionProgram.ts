@@ -0,0 +1,93 @@
+import type { Program, ProgramContext } from '../../types';
+import { cropTopology } from '../../bonds';
+import type { ProgramFactory } from '../registry';
+import { ChildGrid } from './ChildGrid';
+
+// A rectangle of the parent grid, in cells
+export interface Region {
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+}
+
+export interface RegionChild {
+  region: Region;
+  program: ProgramFactory;
+}
+
+/**
+ * The grid split into quadrants (reading order: top left, top right, bottom left, bottom right).
+ * On odd sizes the top and left quadrants take the extra row/column.
+ */
+export function quadrants(rows: number, cols: number): Region[] {
+  const top = Math.ceil(rows / 2);
+  const left = Math.ceil(cols / 2);
+  return [
+    { row: 0, col: 0, rows: top, cols: left },
+    { row: 0, col: left, rows: top, cols: cols - left },
+    { row: top, col: 0, rows: rows - top, cols: left },
+    { row: top, col: left, rows: rows - top, cols: cols - left },
+  ];
+}
+
+/**
+ * The grid split in two side by side (vertical) or one above the other (horizontal)
+ */
+export function halves(rows: number, cols: number, split: 'vertical' | 'horizontal'): Region[] {
+  if (split === 'vertical') {
+    const left = Math.ceil(cols / 2);
+    return [{ row: 0, col: 0, rows, cols: left }, { row: 0, col: left, rows, cols: cols - left }];
+  }
+  const top = Math.ceil(rows / 2);
+  return [{ row: 0, col: 0, rows: top, cols }, { row: top, col: 0, rows: rows - top, cols }];
+}
+
+/**
+ * Runs several programs side by side, each on its own region of the grid as
+ * if that region were the whole wall. Children step together; the
+ * combination is done when every child is. Regions too small to hold a cell
+ * (a quadrant of a one-row grid) are left out.
+ * On a bond, each child sees only the bricks of its region (see CroppedTopology).
+ */
+export class RegionProgram implements Program {
+  private children: { grid: ChildGrid; region: Region; program: Program }[];
+  private getGridState: () => number[][];
+
+  constructor(context: ProgramContext, children: RegionChild[]) {
+    this.getGridState = context.getGridState;
+    this.children = children
+      .filter(child => child.region.rows > 0 && child.region.cols > 0)
+      .map(({ region, program }) => {
+        if (region.row < 0 || region.col < 0
+          || region.row + region.rows > context.rows || region.col + region.cols > context.cols) {
+          throw new Error(`Region ${region.rows}x${region.cols} at (${region.row}, ${region.col}) is outside the ${context.rows}x${context.cols} grid`);
+        }
+        const grid = new ChildGrid(context, region.rows, region.cols, (r, c, value) => {
+          context.updateGridState(region.row + r, region.col + c, value);
+        }, cropTopology(context.topology, region));
+        return { grid, region, program: program(grid.context) };
+      });
+    if (this.children.length === 0) {
+      throw new Error('RegionProgram needs at least one region with cells in it');
+    }
+  }
+
+  reset() {
+    const parent = this.getGridState();
+    for (const { grid, region, program } of this.children) {
+      grid.load((r, c) => parent[region.row + r][region.col + c]);
+      program.reset();
+    }
+  }
+
+  update() {
+    for (const { program } of this.children) {
+      if (!program.isDone()) program.update();
+    }
+  }
+
+  isDone(): boolean {
+    return this.children.every(({ program }) => program.isDone());
+  }
+}
@@ -0,0 +1,120 @@
+// Programs built from other programs - importing this module registers the
+// built-in compositions. Each combinator is itself a Program, so they nest:
+// a RegionProgram child can be a MirrorProgram of an OverlayProgram.
+import { materialIndex } from '../../materials';
+import { createProgram, registerProgram } from '../registry';
+import type { ProgramDefinition, ProgramFactory, ProgramParams } from '../registry';
+import { RegionProgram, quadrants } from './RegionProgram';
+import { MIRROR_AXES, MirrorProgram } from './MirrorProgram';
+import type { MirrorAxis } from './MirrorProgram';
+import { OVERLAY_OPERATORS, OverlayProgram } from './OverlayProgram';
+import type { OverlayOperator } from './OverlayProgram';
+
+// Registered programs currently being built, to catch compositions that contain themselves
+const building: Set<string> = new Set();
+
+/**
+ * Factory for a registered program by name, for combinator children
+ */
+export function programFactory(name: string, params: Partial<ProgramParams> = {}): ProgramFactory {
+  return context => {
+    if (building.has(name)) {
+      throw new Error(`Program "${name}" contains itself (${[...building].join(' > ')} > ${name})`);
+    }
+    building.add(name);
+    try {
+      return createProgram(name, context, params);
+    } finally {
+      building.delete(name);
+    }
+  };
+}
+
+/**
+ * Register a composition - children named in its params are built through programFactory
+ */
+export function registerCombinator<P extends ProgramParams>(definition: ProgramDefinition<P>) {
+  registerProgram<P>({
+    ...definition,
+    create: (context, params) => {
+      building.add(definition.name);
+      try {
+        return definition.create(context, params);
+      } finally {
+        building.delete(definition.name);
+      }
+    },
+  });
+}
+
+const choice = <T extends string>(param: string, value: string, choices: readonly T[]): T => {
+  if (!choices.includes(value as T)) {
+    throw new Error(`${param} must be one of ${choices.join(', ')} (got "${value}")`);
+  }
+  return value as T;
+};
+
+export interface QuadrantsParams extends ProgramParams {
+  topLeft: string; // Program name per quadrant
+  topRight: string;
+  bottomLeft: string;
+  bottomRight: string;
+}
+
+export interface MirrorParams extends ProgramParams {
+  program: string;
+  axis: string; // A MirrorAxis
+}
+
+export interface OverlayParams extends ProgramParams {
+  first: string;
+  second: string;
+  operator: string; // An OverlayOperator
+  background: string; // Material id that counts as "off"
+}
+
+registerCombinator<QuadrantsParams>({
+  name: 'Quadrants',
+  description: 'Four programs at once, one in each quarter of the grid',
+  defaultParams: { topLeft: 'ScanBySpiral', topRight: 'BrickInfection', bottomLeft: 'SwipeByDiagonal', bottomRight: 'ScanByRadiation' },
+  transition: { style: 'crossfade' },
+  create: (context, params) => {
+    const names = [params.topLeft, params.topRight, params.bottomLeft, params.bottomRight];
+    return new RegionProgram(context, quadrants(context.rows, context.cols).map((region, index) => ({
+      region,
+      program: programFactory(names[index]),
+    })));
+  },
+});
+
+registerCombinator<MirrorParams>({
+  name: 'Mirror',
+  description: 'One program on a quarter of the grid, reflected into the other three like a kaleidoscope',
+  defaultParams: { program: 'BrickInfection', axis: 'kaleidoscope' },
+  transition: { style: 'flip' },
+  create: (context, params) => new MirrorProgram(
+    context, choice<MirrorAxis>('axis', params.axis, MIRROR_AXES), programFactory(params.program)
+  ),
+});
+
+registerCombinator<OverlayParams>({
+  name: 'Overlay',
+  description: 'A radiating sweep runs over the Game of Life, turning over every cell it passes',
+  defaultParams: { first: 'GameOfLife', second: 'SwipeByRadiation', operator: 'xor', background: 'clay' },
+  transition: { style: 'crossfade' },
+  create: (context, params) => new OverlayProgram(
+    context,
+    choice<OverlayOperator>('operator', params.operator, OVERLAY_OPERATORS),
+    programFactory(params.first),
+    programFactory(params.second),
+    materialIndex(params.background)
+  ),
+});
+
+export { ChildGrid } from './ChildGrid';
+export { RegionProgram, quadrants, halves } from './RegionProgram';
+export type { Region, RegionChild } from './RegionProgram';
+export { MirrorProgram, MIRROR_AXES } from './MirrorProgram';
+export type { MirrorAxis } from './MirrorProgram';
+export { OverlayProgram, OVERLAY_OPERATORS } from './OverlayProgram';
+export type { OverlayOperator } from './OverlayProgram';
@@ -0,0 +1,226 @@
+import { GRAFFITI_MESSAGES } from '../../config';
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import { BondTopology, MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import { randomInt } from '../../engine/random';
+import type { ProgramParams } from '../registry';
+import { textBitmap } from './font';
+import type { TextBitmap } from './font';
+
+export interface GraffitiParams extends ProgramParams {
+  message: string; // Text to write ('' = one of GRAFFITI_MESSAGES, picked at random each run)
+  material: string; // Material id of the letters
+  background: string; // Material id the grid starts as and erodes back to
+  scale: number; // Cells (or courses) per font pixel, 0 to fit the wall's height
+  scrollSpeed: number; // Cells the text is written or scrolled by per step
+  holdSteps: number; // Steps the finished text stays up before it erodes
+  erosion: number; // Chance per step that an exposed brick of the text crumbles, 0-1
+}
+
+export const DEFAULT_GRAFFITI_PARAMS: GraffitiParams = {
+  message: '',
+  material: 'brick',
+  background: 'clay',
+  scale: 0,
+  scrollSpeed: 1,
+  holdSteps: 20,
+  erosion: 0.15,
+};
+
+// A cell's rectangle on the wall, in the units the text is laid out in
+interface CellRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+type GraffitiPhase = 'write' | 'scroll' | 'hold' | 'erode' | 'done';
+
+/**
+ * Writes a message across the wall in a bitmap font, like the names and
+ * hearts scratched into the real bricks. Text that fits is written letter by
+ * letter where it stands; longer text scrolls in from the right like a
+ * marquee until its end is on the wall. Then the letters crumble back to
+ * the background from their exposed edges.
+ */
+export class GraffitiProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private rows: number;
+  private cols: number;
+  private random: () => number;
+  private params: GraffitiParams;
+  private material: number;
+  private background: number;
+  private topology: GridTopology;
+  private cells: (CellRect | null)[]; // Row by row, null for holes in a bond
+  private wallWidth: number;
+  private wallHeight: number;
+
+  private text: TextBitmap = textBitmap('');
+  private scale: number = 1;
+  private left: number = 0; // Where the text's left edge is on the wall
+  private top: number = 0;
+  private end: number = 0; // Where the scroll phase leaves the text's left edge
+  private pen: number = 0; // How far the write phase has got
+  private lit: Uint8Array = new Uint8Array(0); // 1 where a cell shows the text
+  private phase: GraffitiPhase = 'done';
+  private holdCount: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: GraffitiParams = DEFAULT_GRAFFITI_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    this.topology = topology;
+    if (params.scrollSpeed <= 0) {
+      throw new Error(`Graffiti scrollSpeed must be above 0 (got ${params.scrollSpeed})`);
+    }
+    if (params.erosion <= 0 || params.erosion > 1) {
+      throw new Error(`Graffiti erosion must be above 0 and at most 1 (got ${params.erosion})`);
+    }
+
+    // Matrix cells are laid out one unit each; a bond's bricks keep their own sizes
+    this.cells = [];
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        if (topology instanceof BondTopology) {
+          this.cells.push(topology.brickFor(r, c));
+        } else {
+          this.cells.push({ x: c, y: r, w: 1, h: 1 });
+        }
+      }
+    }
+    this.wallWidth = topology instanceof BondTopology ? topology.width : cols;
+    this.wallHeight = topology instanceof BondTopology ? topology.height : rows;
+  }
+
+  private pickMessage(): string {
+    if (this.params.message) return this.params.message;
+    if (GRAFFITI_MESSAGES.length === 0) return '?';
+    return GRAFFITI_MESSAGES[randomInt(this.random, GRAFFITI_MESSAGES.length)];
+  }
+
+  reset() {
+    this.text = textBitmap(this.pickMessage());
+    this.scale = this.params.scale > 0
+      ? this.params.scale
+      : Math.max(1, Math.floor(this.wallHeight / this.text.height));
+    const width = this.text.width * this.scale;
+    this.top = Math.floor((this.wallHeight - this.text.height * this.scale) / 2);
+
+    if (width <= this.wallWidth) {
+      // Fits: written left to right where it stands
+      this.left = Math.floor((this.wallWidth - width) / 2);
+      this.pen = this.left;
+      this.phase = 'write';
+    } else {
+      // Too wide: enters from the right and stops a pixel short of the right edge
+      this.left = this.wallWidth;
+      this.end = this.wallWidth - width - this.scale;
+      this.phase = 'scroll';
+    }
+    this.holdCount = 0;
+
+    this.lit = new Uint8Array(this.rows * this.cols);
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+  }
+
+  // Whether at least half the cell is covered by lit font pixels left of clipRight
+  private covers(cell: CellRect, clipRight: number): boolean {
+    const { scale } = this;
+    const right = Math.min(cell.x + cell.w, clipRight);
+    if (right <= cell.x) return false;
+
+    const x0 = Math.max(0, Math.floor((cell.x - this.left) / scale));
+    const x1 = Math.min(this.text.width, Math.ceil((right - this.left) / scale));
+    const y0 = Math.max(0, Math.floor((cell.y - this.top) / scale));
+    const y1 = Math.min(this.text.height, Math.ceil((cell.y + cell.h - this.top) / scale));
+    let area = 0;
+    for (let y = y0; y < y1; y++) {
+      const overlapY = Math.min(cell.y + cell.h, this.top + (y + 1) * scale) - Math.max(cell.y, this.top + y * scale);
+      for (let x = x0; x < x1; x++) {
+        if (!this.text.pixels[y * this.text.width + x]) continue;
+        const overlapX = Math.min(right, this.left + (x + 1) * scale) - Math.max(cell.x, this.left + x * scale);
+        if (overlapX > 0 && overlapY > 0) area += overlapX * overlapY;
+      }
+    }
+    return area >= (cell.w * cell.h) / 2;
+  }
+
+  // Paint the cells whose coverage changed since the last step
+  private drawText(clipRight: number) {
+    this.cells.forEach((cell, i) => {
+      if (!cell) return;
+      const lit = this.covers(cell, clipRight) ? 1 : 0;
+      if (lit === this.lit[i]) return;
+      this.lit[i] = lit;
+      this.updateGridState(Math.floor(i / this.cols), i % this.cols, lit ? this.material : this.background);
+    });
+  }
+
+  private erode() {
+    const exposed: number[] = [];
+    const remaining: number[] = [];
+    this.lit.forEach((lit, i) => {
+      if (!lit) return;
+      remaining.push(i);
+      const r = Math.floor(i / this.cols);
+      const c = i % this.cols;
+      const neighbours = this.topology.neighbours(r, c, 'vonNeumann', 'clamp');
+      if (neighbours.some(({ r: nr, c: nc }) => !this.lit[nr * this.cols + nc])) exposed.push(i);
+    });
+    if (remaining.length === 0) {
+      this.phase = 'done';
+      return;
+    }
+
+    // A solid block with no edge showing still crumbles, from anywhere
+    for (const i of exposed.length > 0 ? exposed : remaining) {
+      if (this.random() >= this.params.erosion) continue;
+      this.lit[i] = 0;
+      this.updateGridState(Math.floor(i / this.cols), i % this.cols, this.background);
+    }
+  }
+
+  update() {
+    switch (this.phase) {
+      case 'write':
+        this.pen += this.params.scrollSpeed;
+        this.drawText(this.pen);
+        if (this.pen >= this.left + this.text.width * this.scale) this.phase = 'hold';
+        break;
+      case 'scroll':
+        this.left = Math.max(this.end, this.left - this.params.scrollSpeed);
+        this.drawText(Infinity);
+        if (this.left <= this.end) this.phase = 'hold';
+        break;
+      case 'hold':
+        this.holdCount++;
+        if (this.holdCount >= this.params.holdSteps) this.phase = 'erode';
+        break;
+      case 'erode':
+        this.erode();
+        break;
+    }
+  }
+
+  isDone(): boolean {
+    return this.phase === 'done';
+  }
+}
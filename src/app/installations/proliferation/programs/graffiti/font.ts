@@ -0,0 +1,90 @@
+// A 7-pixel-high bitmap font for scratched-in messages. Each glyph is a list
+// of rows, '#' for a brick; glyphs are as wide as their rows.
+
+export const GLYPH_HEIGHT = 7;
+const GLYPH_SPACING = 1; // Blank pixel columns between glyphs
+
+const FONT: Record<string, string[]> = {
+  'A': ['.###.', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  'B': ['####.', '#...#', '#...#', '####.', '#...#', '#...#', '####.'],
+  'C': ['.###.', '#...#', '#....', '#....', '#....', '#...#', '.###.'],
+  'D': ['####.', '#...#', '#...#', '#...#', '#...#', '#...#', '####.'],
+  'E': ['#####', '#....', '#....', '####.', '#....', '#....', '#####'],
+  'F': ['#####', '#....', '#....', '####.', '#....', '#....', '#....'],
+  'G': ['.###.', '#...#', '#....', '#.###', '#...#', '#...#', '.####'],
+  'H': ['#...#', '#...#', '#...#', '#####', '#...#', '#...#', '#...#'],
+  'I': ['###', '.#.', '.#.', '.#.', '.#.', '.#.', '###'],
+  'J': ['..###', '...#.', '...#.', '...#.', '#..#.', '#..#.', '.##..'],
+  'K': ['#...#', '#..#.', '#.#..', '##...', '#.#..', '#..#.', '#...#'],
+  'L': ['#....', '#....', '#....', '#....', '#....', '#....', '#####'],
+  'M': ['#...#', '##.##', '#.#.#', '#.#.#', '#...#', '#...#', '#...#'],
+  'N': ['#...#', '#...#', '##..#', '#.#.#', '#..##', '#...#', '#...#'],
+  'O': ['.###.', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  'P': ['####.', '#...#', '#...#', '####.', '#....', '#....', '#....'],
+  'Q': ['.###.', '#...#', '#...#', '#...#', '#.#.#', '#..#.', '.##.#'],
+  'R': ['####.', '#...#', '#...#', '####.', '#.#..', '#..#.', '#...#'],
+  'S': ['.####', '#....', '#....', '.###.', '....#', '....#', '####.'],
+  'T': ['#####', '..#..', '..#..', '..#..', '..#..', '..#..', '..#..'],
+  'U': ['#...#', '#...#', '#...#', '#...#', '#...#', '#...#', '.###.'],
+  'V': ['#...#', '#...#', '#...#', '#...#', '#...#', '.#.#.', '..#..'],
+  'W': ['#...#', '#...#', '#...#', '#.#.#', '#.#.#', '#.#.#', '.#.#.'],
+  'X': ['#...#', '#...#', '.#.#.', '..#..', '.#.#.', '#...#', '#...#'],
+  'Y': ['#...#', '#...#', '.#.#.', '..#..', '..#..', '..#..', '..#..'],
+  'Z': ['#####', '....#', '...#.', '..#..', '.#...', '#....', '#####'],
+  '0': ['.###.', '#...#', '#..##', '#.#.#', '##..#', '#...#', '.###.'],
+  '1': ['.#.', '##.', '.#.', '.#.', '.#.', '.#.', '###'],
+  '2': ['.###.', '#...#', '....#', '...#.', '..#..', '.#...', '#####'],
+  '3': ['####.', '....#', '....#', '.###.', '....#', '....#', '####.'],
+  '4': ['...#.', '..##.', '.#.#.', '#..#.', '#####', '...#.', '...#.'],
+  '5': ['#####', '#....', '####.', '....#', '....#', '#...#', '.###.'],
+  '6': ['..##.', '.#...', '#....', '####.', '#...#', '#...#', '.###.'],
+  '7': ['#####', '....#', '...#.', '..#..', '.#...', '.#...', '.#...'],
+  '8': ['.###.', '#...#', '#...#', '.###.', '#...#', '#...#', '.###.'],
+  '9': ['.###.', '#...#', '#...#', '.####', '....#', '...#.', '.##..'],
+  ' ': ['...', '...', '...', '...', '...', '...', '...'],
+  '!': ['#', '#', '#', '#', '#', '.', '#'],
+  '?': ['.###.', '#...#', '....#', '...#.', '..#..', '.....', '..#..'],
+  '.': ['.', '.', '.', '.', '.', '.', '#'],
+  ',': ['..', '..', '..', '..', '..', '.#', '#.'],
+  "'": ['#', '#', '.', '.', '.', '.', '.'],
+  ':': ['.', '.', '#', '.', '.', '#', '.'],
+  '-': ['....', '....', '....', '####', '....', '....', '....'],
+  '+': ['.....', '..#..', '..#..', '#####', '..#..', '..#..', '.....'],
+  '/': ['....#', '....#', '...#.', '..#..', '.#...', '#....', '#....'],
+  '<': ['...#', '..#.', '.#..', '#...', '.#..', '..#.', '...#'],
+  '&': ['.##..', '#..#.', '#.#..', '.#...', '#.#.#', '#..#.', '.##.#'],
+  '♥': ['.##.##.', '#######', '#######', '#######', '.#####.', '..###..', '...#...'],
+};
+
+// A message laid out in font pixels, row by row (1 = brick)
+export interface TextBitmap {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+/**
+ * The characters the font draws a message with: upper case, accents
+ * dropped, anything else as '?'
+ */
+export function fontCharacters(text: string): string[] {
+  return [...text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toUpperCase()]
+    .map(char => (FONT[char] ? char : '?'));
+}
+
+export function textBitmap(text: string): TextBitmap {
+  const glyphs = fontCharacters(text).map(char => FONT[char]);
+  const width = Math.max(0, glyphs.reduce((sum, glyph) => sum + glyph[0].length + GLYPH_SPACING, 0) - GLYPH_SPACING);
+  const pixels = new Uint8Array(width * GLYPH_HEIGHT);
+
+  let left = 0;
+  for (const glyph of glyphs) {
+    glyph.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        if (row[x] === '#') pixels[y * width + left + x] = 1;
+      }
+    });
+    left += glyph[0].length + GLYPH_SPACING;
+  }
+  return { width, height: GLYPH_HEIGHT, pixels };
+}
@@ -0,0 +1,17 @@
+import { registerProgram } from '../registry';
+import { DEFAULT_GRAFFITI_PARAMS, GraffitiProgram } from './GraffitiProgram';
+
+registerProgram({
+  name: 'Graffiti',
+  description: 'A message is scratched into the wall in brick letters, scrolling by when it is too long, then crumbles away',
+  defaultParams: DEFAULT_GRAFFITI_PARAMS,
+  transition: { style: 'crumble' },
+  create: (context, params) => new GraffitiProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
+
+export { GraffitiProgram, DEFAULT_GRAFFITI_PARAMS } from './GraffitiProgram';
+export type { GraffitiParams } from './GraffitiProgram';
+export { textBitmap, fontCharacters, GLYPH_HEIGHT } from './font';
+export type { TextBitmap } from './font';
@@ -0,0 +1,91 @@
+import type { GridPosition } from '../../paths';
+import { randomInt } from '../../engine/random';
+import { DEFAULT_CENTER, registerProgram } from '../registry';
+import type { CenteredParams } from '../registry';
+import { GrowthProgram } from './GrowthProgram';
+import type { GrowthParams } from './GrowthProgram';
+
+export interface DiffusionLimitedAggregationParams extends GrowthParams, CenteredParams {
+  particlesPerStep: number; // Particles that stick to the cluster per step, at most (more on big walls)
+  movesPerStep: number; // Random-walk moves per step, shared by the particles - keeps a slow step bounded (more on big walls)
+}
+
+export const DEFAULT_DIFFUSION_LIMITED_AGGREGATION_PARAMS: DiffusionLimitedAggregationParams = {
+  neighbourhood: 'vonNeumann',
+  material: 'brick',
+  background: 'clay',
+  coverage: 0.2,
+  maxSteps: 1500,
+  particlesPerStep: 2,
+  movesPerStep: 5000,
+  ...DEFAULT_CENTER,
+};
+
+/**
+ * Diffusion-limited aggregation: particles drift in at random from a ring
+ * around a seed brick and freeze where they first touch the cluster, which
+ * grows into branching, coral-like fingers
+ */
+export class DiffusionLimitedAggregationProgram extends GrowthProgram<DiffusionLimitedAggregationParams> {
+  private center: GridPosition = { r: 0, c: 0 };
+  private radius: number = 0; // Furthest cluster cell from the seed
+  private particle: GridPosition | null = null; // The walking particle, carried over between steps
+
+  protected seed() {
+    this.center = this.topology.resolveCenter(this.params.centerRow, this.params.centerCol);
+    this.radius = 0;
+    this.particle = null;
+    this.plant(this.center.r, this.center.c);
+  }
+
+  private distance({ r, c }: GridPosition): number {
+    return Math.hypot(r - this.center.r, c - this.center.c);
+  }
+
+  // A new particle on a ring just outside the cluster (clamped to the wall)
+  private launch(): GridPosition {
+    const angle = this.random() * Math.PI * 2;
+    const ring = this.radius + 3;
+    const r = Math.min(this.rows - 1, Math.max(0, Math.round(this.center.r + Math.sin(angle) * ring)));
+    const c = Math.min(this.cols - 1, Math.max(0, Math.round(this.center.c + Math.cos(angle) * ring)));
+    return this.topology.has(r, c) ? { r, c } : this.randomCell();
+  }
+
+  private touchesCluster({ r, c }: GridPosition): boolean {
+    return this.neighbours(r, c).some(pos => this.isGrown(pos.r, pos.c));
+  }
+
+  protected grow() {
+    const particles = this.scaled(this.params.particlesPerStep);
+    const maxMoves = this.scaled(this.params.movesPerStep);
+    let stuck = 0;
+    for (let moves = 0; moves < maxMoves && stuck < particles; moves++) {
+      let particle = this.particle ?? this.launch();
+      if (this.isGrown(particle.r, particle.c)) {
+        this.particle = null;
+        continue;
+      }
+      if (this.touchesCluster(particle)) {
+        this.plant(particle.r, particle.c);
+        this.radius = Math.max(this.radius, this.distance(particle));
+        this.particle = null;
+        stuck++;
+        continue;
+      }
+
+      const options = this.neighbours(particle.r, particle.c);
+      particle = options.length > 0 ? options[randomInt(this.random, options.length)] : particle;
+      // Particles that stray far from the cluster are dropped and relaunched
+      this.particle = this.distance(particle) > this.radius * 2 + 6 ? null : particle;
+    }
+  }
+}
+
+registerProgram({
+  name: 'DiffusionLimitedAggregation',
+  description: 'Wandering particles freeze where they touch a seed brick, growing branching coral-like fingers',
+  defaultParams: DEFAULT_DIFFUSION_LIMITED_AGGREGATION_PARAMS,
+  create: (context, params) => new DiffusionLimitedAggregationProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
@@ -0,0 +1,72 @@
+import type { GridPosition } from '../../paths';
+import { randomInt } from '../../engine/random';
+import { DEFAULT_CENTER, registerProgram } from '../registry';
+import type { CenteredParams } from '../registry';
+import { GrowthProgram } from './GrowthProgram';
+import type { GrowthParams } from './GrowthProgram';
+
+export interface EdenGrowthParams extends GrowthParams, CenteredParams {
+  cellsPerStep: number; // Cells added to the colony per step (more on big walls)
+}
+
+export const DEFAULT_EDEN_GROWTH_PARAMS: EdenGrowthParams = {
+  neighbourhood: 'vonNeumann',
+  material: 'brick',
+  background: 'clay',
+  coverage: 0.6,
+  maxSteps: 1000,
+  cellsPerStep: 3,
+  ...DEFAULT_CENTER,
+};
+
+/**
+ * The Eden model: a colony grows from one brick by adding a random cell from
+ * its border each time, into a round blob with a rough, lichen-like edge
+ */
+export class EdenGrowthProgram extends GrowthProgram<EdenGrowthParams> {
+  private border: GridPosition[] = []; // Clay cells touching the colony, each once
+  private onBorder: Set<number> = new Set();
+
+  private addBorder(row: number, col: number) {
+    for (const pos of this.neighbours(row, col)) {
+      const key = pos.r * this.cols + pos.c;
+      if (this.isGrown(pos.r, pos.c) || this.onBorder.has(key)) continue;
+      this.onBorder.add(key);
+      this.border.push(pos);
+    }
+  }
+
+  protected seed() {
+    this.border = [];
+    this.onBorder.clear();
+    const center = this.topology.resolveCenter(this.params.centerRow, this.params.centerCol);
+    this.plant(center.r, center.c);
+    this.addBorder(center.r, center.c);
+  }
+
+  protected grow() {
+    const cells = this.scaled(this.params.cellsPerStep);
+    for (let i = 0; i < cells && this.border.length > 0; i++) {
+      // Swap-remove a random border cell
+      const index = randomInt(this.random, this.border.length);
+      const cell = this.border[index];
+      this.border[index] = this.border[this.border.length - 1];
+      this.border.pop();
+      this.plant(cell.r, cell.c);
+      this.addBorder(cell.r, cell.c);
+    }
+  }
+
+  protected canGrow(): boolean {
+    return this.border.length > 0;
+  }
+}
+
+registerProgram({
+  name: 'EdenGrowth',
+  description: 'A colony of bricks grows from one seed by taking random cells on its border',
+  defaultParams: DEFAULT_EDEN_GROWTH_PARAMS,
+  create: (context, params) => new EdenGrowthProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
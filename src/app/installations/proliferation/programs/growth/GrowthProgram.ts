@@ -0,0 +1,139 @@
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import type { GridPosition } from '../../paths';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology, Neighbourhood } from '../../bonds';
+import { randomInt } from '../../engine/random';
+import type { ProgramParams } from '../registry';
+
+// Per-step counts (particles, walkers, cells) are tuned for a wall this many
+// bricks big, and scale up with larger walls so a run takes about as long
+const REFERENCE_BRICKS = 2400;
+
+export interface GrowthParams extends ProgramParams {
+  neighbourhood: Neighbourhood; // Which cells count as touching - for walking, sticking and spreading
+  material: string; // Material id of grown cells
+  background: string; // Material id the grid starts as
+  coverage: number; // Share of the wall's bricks grown before the program ends, 0-1
+  maxSteps: number; // Hard stop in case growth stalls short of the coverage
+}
+
+/**
+ * Shared loop for stochastic growth: seed the grid in reset(), then grow a
+ * little each update() until the grown cells cover params.coverage of the
+ * wall. All randomness comes from the engine's seeded random, so a run
+ * replays exactly from its seed.
+ */
+export abstract class GrowthProgram<P extends GrowthParams = GrowthParams> implements Program {
+  protected updateGridState: (row: number, col: number, value: number) => void;
+  protected rows: number;
+  protected cols: number;
+  protected random: () => number;
+  protected params: P;
+  protected topology: GridTopology;
+  protected material: number;
+  protected background: number;
+
+  private grown: Uint8Array = new Uint8Array(0);
+  private grownCount: number = 0;
+  private bricks: number = 0;
+  private target: number = 0; // Grown cells that complete the program
+  private steps: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: P,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.topology = topology;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    if (params.coverage <= 0 || params.coverage > 1) {
+      throw new Error(`Growth coverage must be above 0 and at most 1 (got ${params.coverage})`);
+    }
+  }
+
+  /**
+   * Plant the starting cells - the grid has already been cleared to the background
+   */
+  protected abstract seed(): void;
+
+  /**
+   * Grow for one step
+   */
+  protected abstract grow(): void;
+
+  /**
+   * Whether growth can go on - false ends the program early (e.g. nowhere left to spread)
+   */
+  protected canGrow(): boolean {
+    return true;
+  }
+
+  protected isGrown(row: number, col: number): boolean {
+    return this.grown[row * this.cols + col] === 1;
+  }
+
+  protected plant(row: number, col: number) {
+    if (!this.topology.has(row, col) || this.isGrown(row, col)) return;
+    this.grown[row * this.cols + col] = 1;
+    this.grownCount++;
+    this.updateGridState(row, col, this.material);
+  }
+
+  /**
+   * A per-step count scaled to the wall's size (never below the count itself)
+   */
+  protected scaled(count: number): number {
+    return Math.max(count, Math.round(count * (this.bricks / REFERENCE_BRICKS)));
+  }
+
+  protected neighbours(row: number, col: number): GridPosition[] {
+    return this.topology.neighbours(row, col, this.params.neighbourhood, 'clamp');
+  }
+
+  /**
+   * A random cell with a brick behind it (holes in a bond are skipped)
+   */
+  protected randomCell(): GridPosition {
+    for (;;) {
+      const index = randomInt(this.random, this.rows * this.cols);
+      const r = Math.floor(index / this.cols);
+      const c = index % this.cols;
+      if (this.topology.has(r, c)) return { r, c };
+    }
+  }
+
+  reset() {
+    this.bricks = 0;
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+        if (this.topology.has(r, c)) this.bricks++;
+      }
+    }
+    this.grown = new Uint8Array(this.rows * this.cols);
+    this.grownCount = 0;
+    this.target = Math.ceil(this.bricks * this.params.coverage);
+    this.steps = 0;
+    if (this.bricks > 0) this.seed();
+  }
+
+  update() {
+    if (this.isDone()) return;
+    this.grow();
+    this.steps++;
+  }
+
+  isDone(): boolean {
+    return this.grownCount >= this.target || this.steps >= this.params.maxSteps || !this.canGrow();
+  }
+}
@@ -0,0 +1,64 @@
+import type { GridPosition } from '../../paths';
+import { randomInt } from '../../engine/random';
+import { registerProgram } from '../registry';
+import { GrowthProgram } from './GrowthProgram';
+import type { GrowthParams } from './GrowthProgram';
+
+export interface RandomWalkersParams extends GrowthParams {
+  walkers: number; // Walkers let loose at random cells (more on big walls)
+  curiosity: number; // Chance a walker heads for untouched clay when there is some next to it, 0-1
+}
+
+export const DEFAULT_RANDOM_WALKERS_PARAMS: RandomWalkersParams = {
+  neighbourhood: 'vonNeumann',
+  material: 'brick',
+  background: 'clay',
+  coverage: 0.5,
+  maxSteps: 600,
+  walkers: 5,
+  curiosity: 0.5,
+};
+
+/**
+ * Walkers wander the wall one cell per step and lay a brick trail behind
+ * them. Curious walkers prefer fresh clay, so the trails spread out rather
+ * than circling over the same cells.
+ */
+export class RandomWalkersProgram extends GrowthProgram<RandomWalkersParams> {
+  private walkers: GridPosition[] = [];
+
+  protected seed() {
+    this.walkers = [];
+    const walkers = this.scaled(this.params.walkers);
+    for (let i = 0; i < walkers; i++) {
+      const cell = this.randomCell();
+      this.walkers.push(cell);
+      this.plant(cell.r, cell.c);
+    }
+  }
+
+  protected grow() {
+    this.walkers = this.walkers.map(walker => {
+      const options = this.neighbours(walker.r, walker.c);
+      if (options.length === 0) return walker;
+      const fresh = options.filter(pos => !this.isGrown(pos.r, pos.c));
+      const choices = fresh.length > 0 && this.random() < this.params.curiosity ? fresh : options;
+      const next = choices[randomInt(this.random, choices.length)];
+      this.plant(next.r, next.c);
+      return next;
+    });
+  }
+
+  protected canGrow(): boolean {
+    return this.walkers.length > 0;
+  }
+}
+
+registerProgram({
+  name: 'RandomWalkers',
+  description: 'A few walkers wander the wall at random, leaving trails of bricks',
+  defaultParams: DEFAULT_RANDOM_WALKERS_PARAMS,
+  create: (context, params) => new RandomWalkersProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
@@ -0,0 +1,13 @@
+// Stochastic growth programs - importing this module registers them
+import './DiffusionLimitedAggregationProgram';
+import './RandomWalkersProgram';
+import './EdenGrowthProgram';
+
+export { GrowthProgram } from './GrowthProgram';
+export type { GrowthParams } from './GrowthProgram';
+export { DiffusionLimitedAggregationProgram, DEFAULT_DIFFUSION_LIMITED_AGGREGATION_PARAMS } from './DiffusionLimitedAggregationProgram';
+export type { DiffusionLimitedAggregationParams } from './DiffusionLimitedAggregationProgram';
+export { RandomWalkersProgram, DEFAULT_RANDOM_WALKERS_PARAMS } from './RandomWalkersProgram';
+export type { RandomWalkersParams } from './RandomWalkersProgram';
+export { EdenGrowthProgram, DEFAULT_EDEN_GROWTH_PARAMS } from './EdenGrowthProgram';
+export type { EdenGrowthParams } from './EdenGrowthProgram';
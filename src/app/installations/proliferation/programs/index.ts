@@ -0,0 +1,43 @@
+// Importing a program module registers it. The import order below is the
+// rotation order, so keep the choreographies (ScanByLine first) at the top -
+// the sketch starts with the first registered program.
+import './choreography';
+import './SwipeByRadiationProgram';
+import './SwipeByDiagonalProgram';
+import './SwipeByLineProgram';
+import './automata';
+import './growth';
+import './mosaic';
+import './graffiti';
+import './maze';
+import './combinators'; // After the programs they compose
+
+export {
+  registerProgram,
+  getProgramDefinitions,
+  getProgramDefinition,
+  createProgram,
+  isSeedable,
+  DEFAULT_CENTER,
+} from './registry';
+export type { ProgramDefinition, ProgramFactory, ProgramParams, CenteredParams } from './registry';
+export { registerChoreography, parseChoreography } from './choreography';
+export type { Choreography } from './choreography';
+export {
+  programFactory,
+  registerCombinator,
+  RegionProgram,
+  MirrorProgram,
+  OverlayProgram,
+  quadrants,
+  halves,
+} from './combinators';
+export type { Region, MirrorAxis, OverlayOperator } from './combinators';
+export { setMosaicImage, getMosaicImage, hasMosaicImage, mosaicImageFromPixels } from './mosaic';
+export type { MosaicImage } from './mosaic';
+export { textBitmap } from './graffiti';
+export type { TextBitmap } from './graffiti';
+export { generateMaze, solveMaze } from './maze';
+export type { Maze, MazeSolution } from './maze';
+export { GrowthProgram } from './growth';
+export type { GrowthParams } from './growth';
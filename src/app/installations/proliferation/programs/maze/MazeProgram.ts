@@ -0,0 +1,89 @@
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import type { GridPosition } from '../../paths';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import { createRandom } from '../../engine/random';
+import type { ProgramParams } from '../registry';
+import { MAZE_ALGORITHMS, generateMaze } from './generate';
+import type { MazeAlgorithm } from './generate';
+
+export interface MazeParams extends ProgramParams {
+  algorithm: string; // A MazeAlgorithm
+  material: string; // Material id of the corridors
+  background: string; // Material id of the walls - the grid starts as this
+  carvesPerStep: number; // Passages opened per step
+  mazeSeed: number; // Builds the same maze every run (0 = a new maze from the engine's seed each run)
+}
+
+export const DEFAULT_MAZE_PARAMS: MazeParams = {
+  algorithm: 'backtracker',
+  material: 'brick',
+  background: 'clay',
+  carvesPerStep: 1,
+  mazeSeed: 0,
+};
+
+/**
+ * Carves a maze of corridors through the grid, one passage at a time in the
+ * order the algorithm opens them
+ */
+export class MazeProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private rows: number;
+  private cols: number;
+  private random: () => number;
+  private params: MazeParams;
+  private topology: GridTopology;
+  private material: number;
+  private background: number;
+
+  private carving: GridPosition[][] = [];
+  private carveIndex: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: MazeParams = DEFAULT_MAZE_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.topology = topology;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    if (!MAZE_ALGORITHMS.includes(params.algorithm as MazeAlgorithm)) {
+      throw new Error(`Unknown maze algorithm "${params.algorithm}" (expected one of ${MAZE_ALGORITHMS.join(', ')})`);
+    }
+  }
+
+  reset() {
+    const random = this.params.mazeSeed > 0 ? createRandom(this.params.mazeSeed) : this.random;
+    this.carving = generateMaze(this.rows, this.cols, this.params.algorithm as MazeAlgorithm, random, this.topology).carving;
+    this.carveIndex = 0;
+
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+  }
+
+  update() {
+    for (let i = 0; i < this.params.carvesPerStep && this.carveIndex < this.carving.length; i++) {
+      for (const { r, c } of this.carving[this.carveIndex]) {
+        this.updateGridState(r, c, this.material);
+      }
+      this.carveIndex++;
+    }
+  }
+
+  isDone(): boolean {
+    return this.carveIndex >= this.carving.length;
+  }
+}
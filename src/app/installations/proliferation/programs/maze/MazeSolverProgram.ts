@@ -0,0 +1,210 @@
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import type { GridPosition } from '../../paths';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import { createRandom } from '../../engine/random';
+import type { ProgramParams } from '../registry';
+import { MAZE_ALGORITHMS, generateMaze } from './generate';
+import type { Maze, MazeAlgorithm } from './generate';
+import { MAZE_SEARCHES, solveMaze } from './solve';
+import type { MazeSearch } from './solve';
+
+export interface MazeSolverParams extends ProgramParams {
+  algorithm: string; // The MazeAlgorithm that builds a maze when the grid doesn't hold one
+  search: string; // A MazeSearch
+  material: string; // Material id of the corridors
+  background: string; // Material id of the walls, and what the maze collapses to
+  flood: string; // Material id of cells the search has reached
+  path: string; // Material id of the solution
+  carvesPerStep: number; // Passages opened per step while building a maze
+  floodPerStep: number; // Cells the search reaches (or the path traces) per step
+  holdSteps: number; // Steps the solved maze stays up before it collapses
+  collapsePerStep: number; // Cells returned to the background per step
+  mazeSeed: number; // Builds the same maze every run when it builds one (0 = a new maze from the engine's seed each run)
+}
+
+export const DEFAULT_MAZE_SOLVER_PARAMS: MazeSolverParams = {
+  algorithm: 'backtracker',
+  search: 'astar',
+  material: 'brick',
+  background: 'clay',
+  flood: 'burnt',
+  path: 'glazed',
+  carvesPerStep: 4,
+  floodPerStep: 2,
+  holdSteps: 15,
+  collapsePerStep: 6,
+  mazeSeed: 0,
+};
+
+type SolverPhase = 'clear' | 'carve' | 'flood' | 'trace' | 'hold' | 'collapse' | 'done';
+
+/**
+ * Solves the maze on the grid - corridors are the material, everything else
+ * is wall - so following a Maze program it solves the maze just carved. On a
+ * grid that holds no maze it clears the wall row by row and carves one first.
+ * Floods it from the top-left corner with a breadth-first or A* search until
+ * the search reaches the far corner, traces the path back and then collapses
+ * the maze into the background, the flood last.
+ */
+export class MazeSolverProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private getGridState: () => number[][];
+  private rows: number;
+  private cols: number;
+  private random: () => number;
+  private params: MazeSolverParams;
+  private topology: GridTopology;
+  private material: number;
+  private background: number;
+  private flood: number;
+  private path: number;
+
+  private clearing: GridPosition[][] = []; // Rows still to return to the background
+  private carving: GridPosition[][] = [];
+  private maze: Maze | null = null;
+  private visited: GridPosition[] = [];
+  private solution: GridPosition[] = [];
+  private collapse: GridPosition[] = [];
+  private phase: SolverPhase = 'done';
+  private index: number = 0; // Progress through the current phase
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    getGridState: () => number[][],
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: MazeSolverParams = DEFAULT_MAZE_SOLVER_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols)
+  ) {
+    this.updateGridState = updateGridState;
+    this.getGridState = getGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.topology = topology;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    this.flood = materialIndex(params.flood);
+    this.path = materialIndex(params.path);
+    if (!MAZE_ALGORITHMS.includes(params.algorithm as MazeAlgorithm)) {
+      throw new Error(`Unknown maze algorithm "${params.algorithm}" (expected one of ${MAZE_ALGORITHMS.join(', ')})`);
+    }
+    if (!MAZE_SEARCHES.includes(params.search as MazeSearch)) {
+      throw new Error(`Unknown maze search "${params.search}" (expected one of ${MAZE_SEARCHES.join(', ')})`);
+    }
+    // Painted in the background the flood and path would vanish into the walls
+    if (this.flood === this.background || this.path === this.background) {
+      throw new Error(`MazeSolver flood and path must differ from the background "${params.background}"`);
+    }
+  }
+
+  reset() {
+    this.index = 0;
+    const onGrid = this.readMaze();
+    if (onGrid) {
+      this.solve(onGrid);
+      return;
+    }
+
+    const random = this.params.mazeSeed > 0 ? createRandom(this.params.mazeSeed) : this.random;
+    this.maze = generateMaze(this.rows, this.cols, this.params.algorithm as MazeAlgorithm, random, this.topology);
+    this.carving = this.maze.carving;
+    const grid = this.getGridState();
+    this.clearing = this.topology.rowPath()
+      .map(row => row.filter(({ r, c }) => grid[r][c] !== this.background))
+      .filter(row => row.length > 0);
+    this.phase = 'clear';
+  }
+
+  /**
+   * The maze the grid holds, if it holds one: corridor cells only ever on a
+   * room (even row and column) or between two rooms, as generateMaze carves
+   * them. Anything else - a field of bricks, bare clay - is no maze.
+   */
+  private readMaze(): Maze | null {
+    const grid = this.getGridState();
+    const open = new Uint8Array(this.rows * this.cols);
+    let corridors = 0;
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        if (!this.topology.has(r, c) || grid[r][c] !== this.material) continue;
+        if (r % 2 === 1 && c % 2 === 1) return null;
+        open[r * this.cols + c] = 1;
+        corridors++;
+      }
+    }
+    return corridors > 0 ? { rows: this.rows, cols: this.cols, open, carving: [] } : null;
+  }
+
+  private solve(maze: Maze) {
+    const solution = solveMaze(maze, this.params.search as MazeSearch);
+    this.visited = solution?.visited ?? [];
+    this.solution = [...(solution?.path ?? [])].reverse(); // Traced back from the goal
+
+    // Corridors the search never reached go first - latest carved first when this
+    // program carved them - then the flood in reverse
+    const reached = new Set(this.visited.map(({ r, c }) => r * this.cols + c));
+    const corridors: GridPosition[] = maze.carving.length > 0
+      ? [...maze.carving].reverse().flat()
+      : Array.from(maze.open.keys()).filter(i => maze.open[i]).reverse().map(i => ({ r: Math.floor(i / this.cols), c: i % this.cols }));
+    const unreached = corridors.filter(({ r, c }) => !reached.has(r * this.cols + c));
+    this.collapse = [...unreached, ...[...this.visited].reverse()];
+    this.phase = 'flood';
+    this.index = 0;
+  }
+
+  // Paint the next count cells of a phase's list - true once the list is used up
+  private advance(cells: GridPosition[], count: number, value: number): boolean {
+    const end = Math.min(cells.length, this.index + count);
+    for (; this.index < end; this.index++) {
+      this.updateGridState(cells[this.index].r, cells[this.index].c, value);
+    }
+    if (this.index < cells.length) return false;
+    this.index = 0;
+    return true;
+  }
+
+  update() {
+    switch (this.phase) {
+      case 'clear':
+        // One row back to the background per step, then the carving starts
+        for (const { r, c } of this.clearing[this.index] ?? []) this.updateGridState(r, c, this.background);
+        this.index++;
+        if (this.index >= this.clearing.length) {
+          this.index = 0;
+          this.phase = 'carve';
+        }
+        break;
+      case 'carve':
+        for (let i = 0; i < this.params.carvesPerStep && this.index < this.carving.length; i++, this.index++) {
+          for (const { r, c } of this.carving[this.index]) this.updateGridState(r, c, this.material);
+        }
+        if (this.index >= this.carving.length) this.solve(this.maze!);
+        break;
+      case 'flood':
+        if (this.advance(this.visited, this.params.floodPerStep, this.flood)) this.phase = 'trace';
+        break;
+      case 'trace':
+        if (this.advance(this.solution, this.params.floodPerStep, this.path)) this.phase = 'hold';
+        break;
+      case 'hold':
+        this.index++;
+        if (this.index >= this.params.holdSteps) {
+          this.index = 0;
+          this.phase = 'collapse';
+        }
+        break;
+      case 'collapse':
+        if (this.advance(this.collapse, this.params.collapsePerStep, this.background)) this.phase = 'done';
+        break;
+    }
+  }
+
+  isDone(): boolean {
+    return this.phase === 'done';
+  }
+}
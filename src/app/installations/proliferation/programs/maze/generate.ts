@@ -0,0 +1,128 @@
+import type { GridTopology } from '../../bonds';
+import type { GridPosition } from '../../paths';
+import { randomInt } from '../../engine/random';
+import type { RandomSource } from '../../engine/random';
+
+// backtracker: a random depth-first walk - long, winding corridors with few branches
+// prim:        grows from random points on the maze's edge - short, bushy dead ends
+// kruskal:     joins random neighbouring rooms all over the grid until they connect
+export type MazeAlgorithm = 'backtracker' | 'prim' | 'kruskal';
+
+export const MAZE_ALGORITHMS: MazeAlgorithm[] = ['backtracker', 'prim', 'kruskal'];
+
+/**
+ * A perfect maze on the grid: rooms sit on even rows and columns, and the
+ * cells between two rooms are walls until the maze opens them. On a masonry
+ * bond it follows the bricks' row and column numbers.
+ */
+export interface Maze {
+  rows: number;
+  cols: number;
+  open: Uint8Array; // 1 for corridor cells, row by row
+  carving: GridPosition[][]; // The cells opened together at each stage, in order
+}
+
+// A wall between two rooms, and the room beyond it
+interface Passage {
+  wall: GridPosition;
+  room: GridPosition;
+}
+
+const DIRECTIONS: [number, number][] = [[-1, 0], [0, 1], [1, 0], [0, -1]];
+
+export function generateMaze(
+  rows: number,
+  cols: number,
+  algorithm: MazeAlgorithm,
+  random: RandomSource,
+  topology: GridTopology
+): Maze {
+  const open = new Uint8Array(rows * cols);
+  const carving: GridPosition[][] = [];
+  const isOpen = ({ r, c }: GridPosition) => open[r * cols + c] === 1;
+  const carve = (cells: GridPosition[]) => {
+    const fresh = cells.filter(cell => !isOpen(cell));
+    if (fresh.length === 0) return;
+    fresh.forEach(({ r, c }) => { open[r * cols + c] = 1; });
+    carving.push(fresh);
+  };
+
+  const rooms: GridPosition[] = [];
+  for (let r = 0; r < rows; r += 2) {
+    for (let c = 0; c < cols; c += 2) {
+      if (topology.has(r, c)) rooms.push({ r, c });
+    }
+  }
+  const passages = ({ r, c }: GridPosition): Passage[] => DIRECTIONS
+    .map(([dr, dc]) => ({ wall: { r: r + dr, c: c + dc }, room: { r: r + 2 * dr, c: c + 2 * dc } }))
+    .filter(({ wall, room }) => topology.has(wall.r, wall.c) && topology.has(room.r, room.c));
+
+  if (rooms.length === 0) return { rows, cols, open, carving };
+
+  if (algorithm === 'kruskal') {
+    // Every passage in a random order, opened when it joins two separate sets of rooms
+    const parent = new Map<number, number>(rooms.map(({ r, c }) => [r * cols + c, r * cols + c]));
+    const find = (key: number): number => {
+      let root = key;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(key, root);
+      return root;
+    };
+    const edges: (Passage & { from: GridPosition })[] = [];
+    for (const room of rooms) {
+      for (const passage of passages(room)) {
+        // Each passage once - towards the room below or to the right
+        if (passage.room.r > room.r || passage.room.c > room.c) edges.push({ from: room, ...passage });
+      }
+    }
+    for (let i = edges.length - 1; i > 0; i--) {
+      const j = randomInt(random, i + 1);
+      [edges[i], edges[j]] = [edges[j], edges[i]];
+    }
+    for (const { from, wall, room } of edges) {
+      const a = find(from.r * cols + from.c);
+      const b = find(room.r * cols + room.c);
+      if (a === b) continue;
+      parent.set(a, b);
+      carve([from, wall, room]);
+    }
+    // Rooms no passage reaches (e.g. cut off by holes in a bond) still open
+    rooms.filter(room => !isOpen(room)).forEach(room => carve([room]));
+    return { rows, cols, open, carving };
+  }
+
+  // One walk from the first room - and another from any room it couldn't reach, e.g. past holes in a bond
+  for (const start of rooms) {
+    if (isOpen(start)) continue;
+    carve([start]);
+
+    if (algorithm === 'prim') {
+      // Open a random passage off the maze so far, as long as it leads somewhere new
+      const frontier: Passage[] = [...passages(start)];
+      while (frontier.length > 0) {
+        const index = randomInt(random, frontier.length);
+        const { wall, room } = frontier[index];
+        frontier[index] = frontier[frontier.length - 1];
+        frontier.pop();
+        if (isOpen(room)) continue;
+        carve([wall, room]);
+        frontier.push(...passages(room).filter(passage => !isOpen(passage.room)));
+      }
+    } else {
+      // backtracker: walk to a random unopened room, backing up at dead ends
+      const stack: GridPosition[] = [start];
+      while (stack.length > 0) {
+        const next = passages(stack[stack.length - 1]).filter(passage => !isOpen(passage.room));
+        if (next.length === 0) {
+          stack.pop();
+          continue;
+        }
+        const { wall, room } = next[randomInt(random, next.length)];
+        carve([wall, room]);
+        stack.push(room);
+      }
+    }
+  }
+
+  return { rows, cols, open, carving };
+}
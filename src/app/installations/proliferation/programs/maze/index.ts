@@ -0,0 +1,31 @@
+import { registerProgram } from '../registry';
+import { DEFAULT_MAZE_PARAMS, MazeProgram } from './MazeProgram';
+import { DEFAULT_MAZE_SOLVER_PARAMS, MazeSolverProgram } from './MazeSolverProgram';
+
+registerProgram({
+  name: 'Maze',
+  description: 'Brick corridors are carved through the clay one passage at a time into a perfect maze',
+  defaultParams: DEFAULT_MAZE_PARAMS,
+  create: (context, params) => new MazeProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
+
+registerProgram({
+  name: 'MazeSolver',
+  description: 'A search floods the maze on the wall (carving one if there is none) from one corner to the other, traces the way back and the maze collapses',
+  defaultParams: DEFAULT_MAZE_SOLVER_PARAMS,
+  transition: { style: 'crumble' },
+  create: (context, params) => new MazeSolverProgram(
+    context.updateGridState, context.getGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
+
+export { MazeProgram, DEFAULT_MAZE_PARAMS } from './MazeProgram';
+export type { MazeParams } from './MazeProgram';
+export { MazeSolverProgram, DEFAULT_MAZE_SOLVER_PARAMS } from './MazeSolverProgram';
+export type { MazeSolverParams } from './MazeSolverProgram';
+export { generateMaze, MAZE_ALGORITHMS } from './generate';
+export type { Maze, MazeAlgorithm } from './generate';
+export { solveMaze, MAZE_SEARCHES } from './solve';
+export type { MazeSearch, MazeSolution } from './solve';
@@ -0,0 +1,99 @@
+import type { GridPosition } from '../../paths';
+import type { Maze } from './generate';
+
+// bfs:   floods every corridor in order of distance from the start
+// astar: heads for the goal first, guided by the distance left (Manhattan)
+export type MazeSearch = 'bfs' | 'astar';
+
+export const MAZE_SEARCHES: MazeSearch[] = ['bfs', 'astar'];
+
+export interface MazeSolution {
+  start: GridPosition;
+  goal: GridPosition;
+  visited: GridPosition[]; // Corridor cells in the order the search reached them
+  path: GridPosition[]; // Start to goal - just the start if the goal can't be reached
+}
+
+const STEPS: [number, number][] = [[-1, 0], [0, 1], [1, 0], [0, -1]];
+
+/**
+ * Solve a maze from its top-left corridor cell to the reachable corridor
+ * cell nearest the opposite corner. Ties are broken in a fixed order, so a
+ * maze always floods the same way.
+ */
+export function solveMaze(maze: Maze, search: MazeSearch): MazeSolution | null {
+  const { rows, cols, open } = maze;
+  const startIndex = open.indexOf(1);
+  if (startIndex < 0) return null;
+
+  // Everything reachable from the start, by distance - BFS's own order
+  const distance = new Int32Array(rows * cols).fill(-1);
+  const cameFrom = new Int32Array(rows * cols).fill(-1);
+  const order: number[] = [startIndex];
+  distance[startIndex] = 0;
+  const neighbours = (index: number): number[] => {
+    const r = Math.floor(index / cols);
+    const c = index % cols;
+    const result: number[] = [];
+    for (const [dr, dc] of STEPS) {
+      const nr = r + dr;
+      const nc = c + dc;
+      if (nr >= 0 && nr < rows && nc >= 0 && nc < cols && open[nr * cols + nc]) result.push(nr * cols + nc);
+    }
+    return result;
+  };
+  for (let head = 0; head < order.length; head++) {
+    for (const next of neighbours(order[head])) {
+      if (distance[next] >= 0) continue;
+      distance[next] = distance[order[head]] + 1;
+      cameFrom[next] = order[head];
+      order.push(next);
+    }
+  }
+
+  // The goal: the reachable cell closest to the bottom-right corner
+  const remaining = (index: number) => (rows - 1 - Math.floor(index / cols)) + (cols - 1 - (index % cols));
+  const goalIndex = order.reduce((best, index) => (remaining(index) < remaining(best) ? index : best), startIndex);
+
+  let visited: number[];
+  if (search === 'bfs') {
+    visited = order.slice(0, order.indexOf(goalIndex) + 1);
+  } else {
+    // A*: expand the open cell with the lowest distance so far plus distance left
+    const cost = new Int32Array(rows * cols).fill(-1);
+    const closed = new Uint8Array(rows * cols);
+    const frontier: number[] = [startIndex];
+    cost[startIndex] = 0;
+    cameFrom.fill(-1);
+    visited = [];
+    while (frontier.length > 0) {
+      let best = 0;
+      for (let i = 1; i < frontier.length; i++) {
+        const a = cost[frontier[i]] + remaining(frontier[i]);
+        const b = cost[frontier[best]] + remaining(frontier[best]);
+        if (a < b) best = i;
+      }
+      const current = frontier.splice(best, 1)[0];
+      if (closed[current]) continue;
+      closed[current] = 1;
+      visited.push(current);
+      if (current === goalIndex) break;
+      for (const next of neighbours(current)) {
+        if (closed[next] || (cost[next] >= 0 && cost[next] <= cost[current] + 1)) continue;
+        cost[next] = cost[current] + 1;
+        cameFrom[next] = current;
+        frontier.push(next);
+      }
+    }
+  }
+
+  const path: number[] = [goalIndex];
+  while (path[path.length - 1] !== startIndex) path.push(cameFrom[path[path.length - 1]]);
+  const position = (index: number): GridPosition => ({ r: Math.floor(index / cols), c: index % cols });
+  return {
+    start: position(startIndex),
+    goal: position(goalIndex),
+    visited: visited.map(position),
+    path: path.reverse().map(position),
+  };
+}
@@ -0,0 +1,157 @@
+import { materialIndex } from '../../materials';
+import type { Program } from '../../types';
+import type { GridPosition } from '../../paths';
+import { MatrixTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import { randomInt } from '../../engine/random';
+import { DEFAULT_CENTER } from '../registry';
+import type { CenteredParams, ProgramParams } from '../registry';
+import { getMosaicImage } from './image';
+import type { MosaicImage } from './image';
+import { DITHER_METHODS, ditherCells, sampleImage } from './dither';
+import type { DitherMethod } from './dither';
+
+// The order cells are revealed in - one line of the path per step
+export type MosaicSweep = 'rows' | 'columns' | 'diagonal' | 'spiral' | 'radiation' | 'random';
+
+export const MOSAIC_SWEEPS: MosaicSweep[] = ['rows', 'columns', 'diagonal', 'spiral', 'radiation', 'random'];
+
+export interface MosaicParams extends ProgramParams, CenteredParams {
+  material: string; // Material id for the photo's dark cells
+  background: string; // Material id for its light cells - the grid starts as this
+  dither: string; // A DitherMethod
+  level: number; // Brightness threshold, 0-255
+  invert: boolean; // Light cells get the material instead
+  sweep: string; // A MosaicSweep
+  linesPerStep: number; // Lines of the sweep revealed per step
+  numRays: number; // Rays of the radiation sweep
+}
+
+export const DEFAULT_MOSAIC_PARAMS: MosaicParams = {
+  material: 'brick',
+  background: 'clay',
+  dither: 'floydSteinberg',
+  level: 128,
+  invert: false,
+  sweep: 'spiral',
+  linesPerStep: 1,
+  numRays: 36,
+  ...DEFAULT_CENTER,
+};
+
+/**
+ * Grows the current mosaic photo (see image.ts) out of bricks: the photo is
+ * shrunk to the grid, dithered into material and background cells and then
+ * revealed along a sweep. The photo is read on every reset, so a new upload
+ * shows on the program's next run.
+ */
+export class MosaicProgram implements Program {
+  private updateGridState: (row: number, col: number, value: number) => void;
+  private rows: number;
+  private cols: number;
+  private random: () => number;
+  private params: MosaicParams;
+  private topology: GridTopology;
+  private image: () => MosaicImage;
+  private material: number;
+  private background: number;
+
+  private target: Uint8Array = new Uint8Array(0); // 1 where the cell gets the material
+  private lines: GridPosition[][] = [];
+  private lineIndex: number = 0;
+
+  constructor(
+    updateGridState: (row: number, col: number, value: number) => void,
+    rows: number,
+    cols: number,
+    random: () => number,
+    params: MosaicParams = DEFAULT_MOSAIC_PARAMS,
+    topology: GridTopology = new MatrixTopology(rows, cols),
+    image: () => MosaicImage = getMosaicImage
+  ) {
+    this.updateGridState = updateGridState;
+    this.rows = rows;
+    this.cols = cols;
+    this.random = random;
+    this.params = params;
+    this.topology = topology;
+    this.image = image;
+    this.material = materialIndex(params.material);
+    this.background = materialIndex(params.background);
+    if (!DITHER_METHODS.includes(params.dither as DitherMethod)) {
+      throw new Error(`Unknown dither "${params.dither}" (expected one of ${DITHER_METHODS.join(', ')})`);
+    }
+    if (!MOSAIC_SWEEPS.includes(params.sweep as MosaicSweep)) {
+      throw new Error(`Unknown mosaic sweep "${params.sweep}" (expected one of ${MOSAIC_SWEEPS.join(', ')})`);
+    }
+  }
+
+  reset() {
+    const values = sampleImage(this.image(), this.topology, this.rows, this.cols);
+    this.target = ditherCells(values, this.rows, this.cols, this.params.dither as DitherMethod, this.params.level);
+    if (this.params.invert) {
+      // Holes flip too, but no sweep visits them
+      for (let i = 0; i < this.target.length; i++) this.target[i] = 1 - this.target[i];
+    }
+
+    this.lines = this.sweepLines();
+    this.lineIndex = 0;
+
+    for (let r = 0; r < this.rows; r++) {
+      for (let c = 0; c < this.cols; c++) {
+        this.updateGridState(r, c, this.background);
+      }
+    }
+  }
+
+  // The sweep's lines, plus one last line for any brick the sweep's path misses
+  private sweepLines(): GridPosition[][] {
+    const center = this.topology.resolveCenter(this.params.centerRow, this.params.centerCol);
+    let lines: GridPosition[][];
+    switch (this.params.sweep as MosaicSweep) {
+      case 'rows':
+        lines = this.topology.rowPath();
+        break;
+      case 'columns':
+        lines = this.topology.columnPath();
+        break;
+      case 'diagonal':
+        lines = this.topology.diagonalPath();
+        break;
+      case 'spiral':
+        lines = this.topology.spiralPath(center);
+        break;
+      case 'radiation':
+        lines = this.topology.radiationPath(center, this.params.numRays);
+        break;
+      default: {
+        // random: every brick in a random order, a row's worth at a time
+        const cells = this.topology.rowPath().flat();
+        for (let i = cells.length - 1; i > 0; i--) {
+          const j = randomInt(this.random, i + 1);
+          [cells[i], cells[j]] = [cells[j], cells[i]];
+        }
+        lines = [];
+        for (let i = 0; i < cells.length; i += this.cols) lines.push(cells.slice(i, i + this.cols));
+        break;
+      }
+    }
+
+    const covered = new Set(lines.flat().map(({ r, c }) => r * this.cols + c));
+    const missed = this.topology.rowPath().flat().filter(({ r, c }) => !covered.has(r * this.cols + c));
+    return missed.length > 0 ? [...lines, missed] : lines;
+  }
+
+  update() {
+    for (let i = 0; i < this.params.linesPerStep && this.lineIndex < this.lines.length; i++) {
+      for (const { r, c } of this.lines[this.lineIndex]) {
+        if (this.target[r * this.cols + c]) this.updateGridState(r, c, this.material);
+      }
+      this.lineIndex++;
+    }
+  }
+
+  isDone(): boolean {
+    return this.lineIndex >= this.lines.length;
+  }
+}
@@ -0,0 +1,104 @@
+import { IMAGE_ASPECT_RATIO } from '../../config';
+import { BondTopology } from '../../bonds';
+import type { GridTopology } from '../../bonds';
+import type { MosaicImage } from './image';
+
+// threshold:      dark cells below the level
+// floydSteinberg: error diffusion - smooth gradients become scattered bricks
+// ordered:        4x4 Bayer matrix - gradients become regular cross-hatched patterns
+export type DitherMethod = 'threshold' | 'floydSteinberg' | 'ordered';
+
+export const DITHER_METHODS: DitherMethod[] = ['threshold', 'floydSteinberg', 'ordered'];
+
+const BAYER_4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+// Each cell's rectangle on the wall, as fractions of the wall's width and height
+function cellRect(topology: GridTopology, rows: number, cols: number, r: number, c: number) {
+  if (topology instanceof BondTopology) {
+    const brick = topology.brickFor(r, c);
+    if (!brick) return null;
+    return {
+      x0: brick.x / topology.width, x1: (brick.x + brick.w) / topology.width,
+      y0: brick.y / topology.height, y1: (brick.y + brick.h) / topology.height,
+    };
+  }
+  return { x0: c / cols, x1: (c + 1) / cols, y0: r / rows, y1: (r + 1) / rows };
+}
+
+/**
+ * The photo's brightness under each cell (row by row), averaged over the
+ * cell's area. The photo is cropped to the wall's proportions from its
+ * centre, like a cover crop. Holes in a bond read as white.
+ */
+export function sampleImage(image: MosaicImage, topology: GridTopology, rows: number, cols: number): Float32Array {
+  const wallAspect = topology instanceof BondTopology
+    ? topology.width / topology.height
+    : (cols * IMAGE_ASPECT_RATIO) / rows;
+  const visibleWidth = Math.min(image.width, image.height * wallAspect);
+  const visibleHeight = Math.min(image.height, image.width / wallAspect);
+  const left = (image.width - visibleWidth) / 2;
+  const top = (image.height - visibleHeight) / 2;
+
+  const values = new Float32Array(rows * cols).fill(255);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const rect = cellRect(topology, rows, cols, r, c);
+      if (!rect) continue;
+      // At least the pixel under the cell's centre, for cells smaller than a pixel
+      const x0 = Math.floor(left + rect.x0 * visibleWidth);
+      const y0 = Math.floor(top + rect.y0 * visibleHeight);
+      const x1 = Math.max(x0 + 1, Math.ceil(left + rect.x1 * visibleWidth));
+      const y1 = Math.max(y0 + 1, Math.ceil(top + rect.y1 * visibleHeight));
+      let sum = 0;
+      let count = 0;
+      for (let y = Math.max(0, y0); y < Math.min(image.height, y1); y++) {
+        for (let x = Math.max(0, x0); x < Math.min(image.width, x1); x++) {
+          sum += image.luma[y * image.width + x];
+          count++;
+        }
+      }
+      if (count > 0) values[r * cols + c] = sum / count;
+    }
+  }
+  return values;
+}
+
+/**
+ * Which cells are dark (1) and which light (0) - level is the threshold,
+ * 0-255, and shifts ordered dithering lighter or darker around it
+ */
+export function ditherCells(values: Float32Array, rows: number, cols: number, method: DitherMethod, level: number): Uint8Array {
+  const dark = new Uint8Array(rows * cols);
+  if (method === 'floydSteinberg') {
+    const errors = Float32Array.from(values);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const i = r * cols + c;
+        const out = errors[i] < level ? 0 : 255;
+        dark[i] = out === 0 ? 1 : 0;
+        const error = errors[i] - out;
+        if (c + 1 < cols) errors[i + 1] += (error * 7) / 16;
+        if (r + 1 < rows) {
+          if (c > 0) errors[i + cols - 1] += (error * 3) / 16;
+          errors[i + cols] += (error * 5) / 16;
+          if (c + 1 < cols) errors[i + cols + 1] += error / 16;
+        }
+      }
+    }
+    return dark;
+  }
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      const i = r * cols + c;
+      const cutoff = method === 'ordered' ? ((BAYER_4[r % 4][c % 4] + 0.5) / 16) * 255 + (level - 128) : level;
+      dark[i] = values[i] < cutoff ? 1 : 0;
+    }
+  }
+  return dark;
+}
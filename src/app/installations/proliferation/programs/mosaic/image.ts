@@ -0,0 +1,80 @@
+// --- Mosaic targets ---
+// The photo a MosaicProgram grows toward, kept as grayscale so it is small
+// enough to post to the simulation worker. Set at runtime (an upload, or the
+// mosaic setting); until then programs use a soft disc so the rotation still
+// has something to show.
+
+export interface MosaicImage {
+  width: number;
+  height: number;
+  luma: Float32Array; // 0 (black) to 255 (white), row by row
+  name: string; // For logs and the controls
+}
+
+const MAX_SIDE = 256; // Photos are shrunk to this before dithering - far more detail than any grid shows
+
+const luma = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b; // Standard grayscale conversion
+
+/**
+ * Grayscale copy of RGBA pixels (e.g. a p5 image after loadPixels), area-averaged
+ * down so the longer side is at most MAX_SIDE. Transparent pixels count as white.
+ */
+export function mosaicImageFromPixels(pixels: Uint8ClampedArray, width: number, height: number, name: string): MosaicImage {
+  if (width <= 0 || height <= 0 || pixels.length < width * height * 4) {
+    throw new Error(`Mosaic photo "${name}" has no pixels (${width}x${height})`);
+  }
+  const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+  const outWidth = Math.max(1, Math.round(width * scale));
+  const outHeight = Math.max(1, Math.round(height * scale));
+  const sums = new Float32Array(outWidth * outHeight);
+  const counts = new Uint32Array(outWidth * outHeight);
+
+  for (let y = 0; y < height; y++) {
+    const oy = Math.min(outHeight - 1, Math.floor((y * outHeight) / height));
+    for (let x = 0; x < width; x++) {
+      const ox = Math.min(outWidth - 1, Math.floor((x * outWidth) / width));
+      const i = (y * width + x) * 4;
+      const alpha = pixels[i + 3] / 255;
+      sums[oy * outWidth + ox] += luma(pixels[i], pixels[i + 1], pixels[i + 2]) * alpha + 255 * (1 - alpha);
+      counts[oy * outWidth + ox]++;
+    }
+  }
+
+  const values = new Float32Array(outWidth * outHeight);
+  for (let i = 0; i < values.length; i++) values[i] = counts[i] > 0 ? sums[i] / counts[i] : 255;
+  return { width: outWidth, height: outHeight, luma: values, name };
+}
+
+// Dark in the middle fading to white at the edges
+function defaultImage(): MosaicImage {
+  const size = 64;
+  const values = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.hypot(x + 0.5 - size / 2, y + 0.5 - size / 2) / (size / 2);
+      values[y * size + x] = Math.min(255, distance * 255);
+    }
+  }
+  return { width: size, height: size, luma: values, name: 'Disc' };
+}
+
+const DEFAULT_IMAGE: MosaicImage = defaultImage();
+let currentImage: MosaicImage | null = null;
+
+/**
+ * Set the photo every MosaicProgram created from now on grows toward (null for the default disc)
+ */
+export function setMosaicImage(image: MosaicImage | null) {
+  currentImage = image;
+}
+
+export function getMosaicImage(): MosaicImage {
+  return currentImage ?? DEFAULT_IMAGE;
+}
+
+/**
+ * Whether a photo has been set (rather than the default disc)
+ */
+export function hasMosaicImage(): boolean {
+  return currentImage !== null;
+}
@@ -0,0 +1,19 @@
+import { registerProgram } from '../registry';
+import { DEFAULT_MOSAIC_PARAMS, MosaicProgram } from './MosaicProgram';
+
+registerProgram({
+  name: 'Mosaic',
+  description: 'A photo, dithered into bricks and clay, is revealed ring by ring from the centre',
+  defaultParams: DEFAULT_MOSAIC_PARAMS,
+  transition: { style: 'crumble' },
+  create: (context, params) => new MosaicProgram(
+    context.updateGridState, context.rows, context.cols, context.random, params, context.topology
+  ),
+});
+
+export { MosaicProgram, DEFAULT_MOSAIC_PARAMS, MOSAIC_SWEEPS } from './MosaicProgram';
+export type { MosaicParams, MosaicSweep } from './MosaicProgram';
+export { setMosaicImage, getMosaicImage, hasMosaicImage, mosaicImageFromPixels } from './image';
+export type { MosaicImage } from './image';
+export { sampleImage, ditherCells, DITHER_METHODS } from './dither';
+export type { DitherMethod } from './dither';
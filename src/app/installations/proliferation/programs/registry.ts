@@ -0,0 +1,73 @@
+import type { Program, ProgramContext, TransitionSpec } from '../types';
+
+// Tunable values a program exposes (swipe counts, ray counts, ...)
+export type ProgramParams = Record<string, number | string | boolean>;
+
+// Programs that radiate from a point take these params, so a visitor can seed
+// them at a tapped cell. Negative values mean the grid centre.
+export interface CenteredParams {
+  centerRow: number;
+  centerCol: number;
+}
+
+export const DEFAULT_CENTER: CenteredParams = { centerRow: -1, centerCol: -1 };
+
+// Builds a program against a context - how combinators create their children
+export type ProgramFactory = (context: ProgramContext) => Program;
+
+export interface ProgramDefinition<P extends ProgramParams = ProgramParams> {
+  name: string;
+  description: string;
+  defaultParams: P;
+  transition?: Partial<TransitionSpec>; // How this program's cell flips animate (engine default otherwise)
+  create(context: ProgramContext, params: P): Program;
+}
+
+// Registration order is the rotation order - the first entry starts the sketch
+const definitions: Map<string, ProgramDefinition> = new Map();
+
+/**
+ * Register a program so the sketch picks it up in its rotation.
+ * Each program module calls this once at import time.
+ */
+export function registerProgram<P extends ProgramParams>(definition: ProgramDefinition<P>): void {
+  if (definitions.has(definition.name)) {
+    console.warn(`Program "${definition.name}" is already registered, replacing it`);
+  }
+  definitions.set(definition.name, definition as unknown as ProgramDefinition);
+}
+
+/**
+ * All registered programs, in registration order
+ */
+export function getProgramDefinitions(): ProgramDefinition[] {
+  return Array.from(definitions.values());
+}
+
+export function getProgramDefinition(name: string): ProgramDefinition | undefined {
+  return definitions.get(name);
+}
+
+/**
+ * Whether a program can be started from a chosen cell (it takes CenteredParams)
+ */
+export function isSeedable(name: string): boolean {
+  const params = definitions.get(name)?.defaultParams;
+  return params !== undefined && 'centerRow' in params && 'centerCol' in params;
+}
+
+/**
+ * Build a program by name, merging any overrides over its default parameters
+ */
+export function createProgram(name: string, context: ProgramContext, params: Partial<ProgramParams> = {}): Program {
+  const definition = definitions.get(name);
+  if (!definition) {
+    throw new Error(`Unknown proliferation program: "${name}"`);
+  }
+
+  const merged = { ...definition.defaultParams } as ProgramParams;
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return definition.create(context, merged);
+}
@@ -0,0 +1,105 @@
+import type { P5Graphics, P5Image, P5Instance } from '../types';
+import { MATERIAL_PALETTE } from '../materials';
+import type { GridPosition } from '../paths';
+import { drawCells, drawGrid } from './grid';
+import type { DrawableGrid } from './grid';
+import type { GridLayout } from './layout';
+
+/**
+ * Keeps the drawn grid in an offscreen buffer the size of the canvas and
+ * only redraws the cells that changed since the last frame (or are still
+ * transitioning), so a frame costs one image() call plus the changed cells
+ * rather than one per cell. The whole grid is redrawn when the layout, the
+ * grid being drawn or any material's texture (a color mode change) is new.
+ */
+export class GridBuffer {
+  private p: P5Instance;
+  private buffer: P5Graphics | null = null;
+  private source: DrawableGrid | null = null;
+  private layout: GridLayout | null = null;
+  private offset: { x: number; y: number } = { x: 0, y: 0 };
+  private textures: (P5Image | null)[] = []; // Per material, as last drawn
+  private drawn: Int32Array = new Int32Array(0); // Material on screen per cell, row by row
+  private animating: Uint8Array = new Uint8Array(0); // 1 where the cell was drawn mid-transition
+
+  constructor(p: P5Instance) {
+    this.p = p;
+  }
+
+  /**
+   * Bring the buffer up to date with the grid and draw it onto the canvas.
+   * offset shows one screen's part of a larger layout (see wallView).
+   */
+  draw(
+    source: DrawableGrid,
+    layout: GridLayout,
+    textureFor: (material: number) => P5Image | null,
+    offset: { x: number; y: number } = { x: 0, y: 0 }
+  ) {
+    const textures = MATERIAL_PALETTE.map((_, material) => textureFor(material));
+    const buffer = this.bufferFor(this.p.width, this.p.height);
+
+    if (source !== this.source || layout !== this.layout || offset.x !== this.offset.x || offset.y !== this.offset.y
+      || textures.some((texture, i) => texture !== this.textures[i])) {
+      this.source = source;
+      this.layout = layout;
+      this.offset = offset;
+      this.textures = textures;
+      this.drawn = new Int32Array(layout.rows * layout.cols);
+      this.animating = new Uint8Array(layout.rows * layout.cols);
+      drawGrid(buffer, source, layout, textureFor, offset);
+      this.record(source, layout);
+    } else {
+      drawCells(buffer, source, layout, textureFor, this.changedCells(source, layout), offset);
+    }
+
+    this.p.image(buffer as unknown as P5Image, 0, 0, this.p.width, this.p.height);
+  }
+
+  /**
+   * Free the buffer - the next draw starts over
+   */
+  remove() {
+    this.buffer?.remove();
+    this.buffer = null;
+    this.source = null;
+    this.layout = null;
+  }
+
+  private bufferFor(width: number, height: number): P5Graphics {
+    if (!this.buffer || this.buffer.width !== width || this.buffer.height !== height) {
+      this.remove();
+      this.buffer = this.p.createGraphics(width, height);
+    }
+    return this.buffer;
+  }
+
+  // Cells whose material changed, that are transitioning, or that just finished a transition
+  private changedCells(source: DrawableGrid, layout: GridLayout): GridPosition[] {
+    const grid = source.getGrid();
+    const changed: GridPosition[] = [];
+    for (let r = 0; r < layout.rows; r++) {
+      for (let c = 0; c < layout.cols; c++) {
+        const i = r * layout.cols + c;
+        const transitioning = source.getTransition?.(r, c) != null;
+        if (grid[r][c] !== this.drawn[i] || transitioning || this.animating[i]) {
+          changed.push({ r, c });
+          this.drawn[i] = grid[r][c];
+          this.animating[i] = transitioning ? 1 : 0;
+        }
+      }
+    }
+    return changed;
+  }
+
+  private record(source: DrawableGrid, layout: GridLayout) {
+    const grid = source.getGrid();
+    for (let r = 0; r < layout.rows; r++) {
+      for (let c = 0; c < layout.cols; c++) {
+        const i = r * layout.cols + c;
+        this.drawn[i] = grid[r][c];
+        this.animating[i] = source.getTransition?.(r, c) != null ? 1 : 0;
+      }
+    }
+  }
+}
@@ -0,0 +1,156 @@
+import { CELL_CLAY } from '../types';
+import type { P5Image, P5Surface } from '../types';
+import type { CellTransition } from '../engine';
+import type { GridPosition } from '../paths';
+import { cellOrigin, isBondLayout, zoomFactor } from './layout';
+import type { GridLayout } from './layout';
+import { drawCellTransition } from './transitions';
+
+// Anything with a grid to draw - the engine, or a plain snapshot without transitions
+export interface DrawableGrid {
+  getGrid(): readonly (readonly number[])[];
+  getTransition?(row: number, col: number): (CellTransition & { progress: number }) | null;
+}
+
+type TextureLookup = (material: number) => P5Image | null;
+
+const BACKGROUND = 240; // Light grey behind the cells
+
+// Draw one cell's material into a rectangle, mid-transition if it flipped recently.
+// clear paints the background first where the cell won't cover its whole rectangle
+// (redrawing over an earlier frame rather than a cleared canvas).
+function drawCell(
+  surface: P5Surface,
+  source: DrawableGrid,
+  gridState: readonly (readonly number[])[],
+  textureFor: TextureLookup,
+  r: number,
+  c: number,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  clear: boolean
+) {
+  // Draw the cell's material to fill entire cell area in the current color mode
+  const material = gridState[r]?.[c] ?? CELL_CLAY;
+  const imageToUse = textureFor(material);
+
+  // Cells that flipped recently blend from their previous material
+  const transition = source.getTransition?.(r, c) ?? null;
+  const fromImage = transition ? textureFor(transition.from) : null;
+  if (clear && (!imageToUse || transition?.style === 'flip')) {
+    surface.rect(x, y, w, h);
+  }
+  if (!imageToUse) return;
+
+  if (transition && fromImage) {
+    drawCellTransition(surface, fromImage, imageToUse, x, y, w, h, transition.style, transition.progress, r, c);
+  } else {
+    surface.image(imageToUse, x, y, w, h);
+  }
+}
+
+// Draw cell (r, c) at its place in the layout - the view transform must already be applied
+function placeCell(
+  surface: P5Surface,
+  source: DrawableGrid,
+  gridState: readonly (readonly number[])[],
+  layout: GridLayout,
+  textureFor: TextureLookup,
+  r: number,
+  c: number,
+  clear: boolean
+) {
+  if (!isBondLayout(layout)) {
+    const { x, y } = cellOrigin(layout, r, c);
+    drawCell(surface, source, gridState, textureFor, r, c, x, y, layout.cellWidth, layout.cellHeight, clear);
+    return;
+  }
+
+  // Each brick at its place in the bond - bricks past the edge are clipped by the canvas
+  const brick = layout.topology.brickFor(r, c);
+  if (!brick) return;
+  const unit = layout.cellHeight;
+  const x = brick.x * unit;
+  const y = brick.y * unit;
+  const w = brick.w * unit;
+  const h = brick.h * unit;
+  if (brick.h > brick.w) {
+    // Upright bricks show the texture turned a quarter turn
+    surface.push();
+    surface.translate(x, y + h);
+    surface.rotate(-Math.PI / 2);
+    drawCell(surface, source, gridState, textureFor, r, c, 0, 0, h, w, clear);
+    surface.pop();
+  } else {
+    drawCell(surface, source, gridState, textureFor, r, c, x, y, w, h, clear);
+  }
+}
+
+// Shift the view for a tile, and on a plain grid zoom in to crop the zigzag gaps
+function applyView(surface: P5Surface, layout: GridLayout, offset: { x: number; y: number }) {
+  surface.translate(-offset.x, -offset.y);
+  if (isBondLayout(layout)) return;
+
+  // Scale from center and translate to center the zoomed content
+  surface.translate(layout.width / 2, layout.height / 2);
+  surface.scale(zoomFactor(layout));
+  surface.translate(-layout.width / 2, -layout.height / 2);
+}
+
+/**
+ * Draw a grid onto a canvas or offscreen buffer.
+ * textureFor maps a material index to the image to show (filtered for the color mode).
+ * offset shifts the view for drawing one tile of a larger image.
+ */
+export function drawGrid(
+  surface: P5Surface,
+  source: DrawableGrid,
+  layout: GridLayout,
+  textureFor: TextureLookup,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+) {
+  surface.background(BACKGROUND);
+  const gridState = source.getGrid();
+
+  surface.push(); // Save current transformation state
+  applyView(surface, layout, offset);
+  if (isBondLayout(layout)) {
+    for (const brick of layout.topology.bricks) {
+      placeCell(surface, source, gridState, layout, textureFor, brick.r, brick.c, false);
+    }
+  } else {
+    for (let r = 0; r < layout.rows; r++) {
+      for (let c = 0; c < layout.cols; c++) {
+        placeCell(surface, source, gridState, layout, textureFor, r, c, false);
+      }
+    }
+  }
+  surface.pop(); // Restore transformation state
+}
+
+/**
+ * Redraw some cells over a surface that already shows the rest of the grid
+ * (see GridBuffer) - the same pixels drawGrid would put there
+ */
+export function drawCells(
+  surface: P5Surface,
+  source: DrawableGrid,
+  layout: GridLayout,
+  textureFor: TextureLookup,
+  cells: readonly GridPosition[],
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+) {
+  if (cells.length === 0) return;
+  const gridState = source.getGrid();
+
+  surface.push();
+  applyView(surface, layout, offset);
+  surface.noStroke();
+  surface.fill(BACKGROUND);
+  for (const { r, c } of cells) {
+    placeCell(surface, source, gridState, layout, textureFor, r, c, true);
+  }
+  surface.pop();
+}
@@ -0,0 +1,135 @@
+import { IMAGE_ASPECT_RATIO, ZIGZAG_OFFSET } from '../config';
+import type { GridPosition } from '../paths';
+import { BondTopology, MatrixTopology, layBricks } from '../bonds';
+import type { GridTopology } from '../bonds';
+import { DEFAULT_SETTINGS } from '../settings';
+import type { SketchSettings } from '../settings';
+
+export interface GridLayout {
+  width: number;
+  height: number;
+  rows: number;
+  cols: number;
+  cellWidth: number;
+  cellHeight: number;
+  zigzagOffset: number; // Alternating row offset, as a fraction of the cell width
+  topology: GridTopology; // The bricks behind the rows x cols matrix
+}
+
+// Masonry bonds lay square wall units: a course is one unit (cellHeight)
+// tall and a stretcher two units (cellWidth) long
+export const isBondLayout = (layout: GridLayout): layout is GridLayout & { topology: BondTopology } =>
+  layout.topology instanceof BondTopology;
+
+// Zoom in enough to crop the zigzag offset gaps at the left and right edges
+export function zoomFactor(layout: GridLayout): number {
+  return 1 + (layout.zigzagOffset * 1.5);
+}
+
+/**
+ * Fit the grid to a canvas of the given size - shared by the live canvas and exports
+ */
+export function computeGridLayout(
+  width: number,
+  height: number,
+  settings: Pick<SketchSettings, 'targetRows' | 'targetCols' | 'fixRows' | 'zigzagOffset' | 'bond'> = DEFAULT_SETTINGS
+): GridLayout {
+  if (settings.bond !== 'grid') {
+    // Fixed rows are courses, fixed columns are stretchers across
+    const unit = settings.fixRows ? height / settings.targetRows : width / (2 * settings.targetCols);
+    const topology = unit > 0
+      ? new BondTopology(layBricks(settings.bond, width / unit, height / unit), width / unit, height / unit)
+      : new BondTopology([], 0, 0);
+    return {
+      width, height, rows: topology.rows, cols: topology.cols,
+      cellWidth: 2 * unit, cellHeight: unit, zigzagOffset: 0, topology,
+    };
+  }
+
+  let rows: number;
+  let cols: number;
+  let cellWidth: number;
+  let cellHeight: number;
+
+  if (settings.fixRows) {
+    // Fix rows, calculate columns to fit width
+    rows = settings.targetRows;
+    cellHeight = height / rows;
+    cols = Math.max(1, Math.floor(width / cellHeight));
+    cellWidth = width / cols; // Use exact width to avoid gaps
+  } else {
+    // Fix columns, prioritize adding rows while maintaining aspect ratio
+    cols = settings.targetCols;
+    cellWidth = width / cols;
+
+    // Calculate how many rows fit with the original image aspect ratio,
+    // forcing at least one row
+    const idealCellHeight = cellWidth / IMAGE_ASPECT_RATIO;
+    rows = Math.max(1, Math.floor(height / idealCellHeight));
+
+    // Use exact height to fill remaining space (minimal stretch)
+    cellHeight = height / rows;
+  }
+
+  return {
+    width, height, rows, cols, cellWidth, cellHeight,
+    zigzagOffset: settings.zigzagOffset, topology: new MatrixTopology(rows, cols),
+  };
+}
+
+/**
+ * Stretch an existing grid over a canvas of any size - posters keep the grid they were given.
+ * A masonry bond keeps its bricks' proportions instead, covering the canvas and cropping the rest.
+ */
+export function layoutForGrid(
+  width: number,
+  height: number,
+  rows: number,
+  cols: number,
+  zigzagOffset: number = ZIGZAG_OFFSET,
+  topology: GridTopology = new MatrixTopology(rows, cols)
+): GridLayout {
+  if (topology instanceof BondTopology) {
+    const unit = Math.max(width / topology.width, height / topology.height);
+    return { width, height, rows, cols, cellWidth: 2 * unit, cellHeight: unit, zigzagOffset: 0, topology };
+  }
+  return { width, height, rows, cols, cellWidth: width / cols, cellHeight: height / rows, zigzagOffset, topology };
+}
+
+/**
+ * Top-left corner of a cell before the zoom, with the zigzag offset applied
+ */
+export function cellOrigin(layout: GridLayout, row: number, col: number): { x: number; y: number } {
+  // Even rows shift right, odd rows shift left
+  const zigzagOffsetX = row % 2 === 0 ? layout.cellWidth * layout.zigzagOffset : -layout.cellWidth * layout.zigzagOffset;
+  return { x: col * layout.cellWidth + zigzagOffsetX, y: row * layout.cellHeight };
+}
+
+/**
+ * The cell under a point on the canvas - undoes the zoom and the row's zigzag
+ * offset, or finds the brick there in a bond. Null for points in the gaps the
+ * zigzag leaves at the row ends. offset is where the canvas sits in a layout
+ * spread over several screens, as in drawGrid.
+ */
+export function cellAt(
+  layout: GridLayout,
+  canvasX: number,
+  canvasY: number,
+  offset: { x: number; y: number } = { x: 0, y: 0 }
+): GridPosition | null {
+  const x = canvasX + offset.x;
+  const y = canvasY + offset.y;
+  if (isBondLayout(layout)) {
+    return layout.cellHeight > 0 ? layout.topology.brickAt(x / layout.cellHeight, y / layout.cellHeight) : null;
+  }
+
+  const zoom = zoomFactor(layout);
+  const gridX = (x - layout.width / 2) / zoom + layout.width / 2;
+  const gridY = (y - layout.height / 2) / zoom + layout.height / 2;
+
+  const r = Math.floor(gridY / layout.cellHeight);
+  if (r < 0 || r >= layout.rows) return null;
+  const c = Math.floor((gridX - cellOrigin(layout, r, 0).x) / layout.cellWidth);
+  if (c < 0 || c >= layout.cols) return null;
+  return { r, c };
+}
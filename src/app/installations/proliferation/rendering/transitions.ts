@@ -0,0 +1,80 @@
+import type { P5Image, P5Surface, TransitionStyle } from '../types';
+
+const CRUMBLE_BLOCKS = 4; // The old texture breaks into CRUMBLE_BLOCKS x CRUMBLE_BLOCKS pieces
+
+// Cheap deterministic hash so each cell crumbles in its own (stable) order
+const blockThreshold = (row: number, col: number, block: number): number => {
+  let h = (row * 73856093) ^ (col * 19349663) ^ (block * 83492791);
+  h = Math.imul(h ^ (h >>> 13), 0x5bd1e995);
+  return ((h ^ (h >>> 15)) >>> 0) / 4294967296;
+};
+
+/**
+ * Draw a cell partway through its flip from one texture to another.
+ * progress runs from 0 (all "from") to 1 (all "to").
+ */
+export function drawCellTransition(
+  p: P5Surface,
+  from: P5Image,
+  to: P5Image,
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  style: TransitionStyle,
+  progress: number,
+  row: number,
+  col: number
+) {
+  const t = Math.min(1, Math.max(0, progress));
+
+  switch (style) {
+    case 'cut':
+      p.image(to, x, y, w, h);
+      break;
+
+    case 'crossfade':
+      p.image(from, x, y, w, h);
+      p.tint(255, t * 255);
+      p.image(to, x, y, w, h);
+      p.noTint();
+      break;
+
+    case 'slide': {
+      // The new texture pushes in from the left, the old one slides out to the right
+      const split = w * t;
+      if (split > 0) {
+        p.image(to, x, y, split, h, to.width * (1 - t), 0, to.width * t, to.height);
+      }
+      if (split < w) {
+        p.image(from, x + split, y, w - split, h, 0, 0, from.width * (1 - t), from.height);
+      }
+      break;
+    }
+
+    case 'flip': {
+      // Squash the old face to nothing, then grow the new face - a card turning over
+      const half = t < 0.5;
+      const faceWidth = w * Math.abs(1 - 2 * t);
+      p.image(half ? from : to, x + (w - faceWidth) / 2, y, faceWidth, h);
+      break;
+    }
+
+    case 'crumble': {
+      // New texture underneath; blocks of the old one fall away in a per-cell random order
+      p.image(to, x, y, w, h);
+      const blockW = w / CRUMBLE_BLOCKS;
+      const blockH = h / CRUMBLE_BLOCKS;
+      const srcW = from.width / CRUMBLE_BLOCKS;
+      const srcH = from.height / CRUMBLE_BLOCKS;
+      for (let by = 0; by < CRUMBLE_BLOCKS; by++) {
+        for (let bx = 0; bx < CRUMBLE_BLOCKS; bx++) {
+          if (blockThreshold(row, col, by * CRUMBLE_BLOCKS + bx) >= t) {
+            p.image(from, x + bx * blockW, y + by * blockH, blockW, blockH, bx * srcW, by * srcH, srcW, srcH);
+          }
+        }
+      }
+      break;
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  TARGET_ROWS,
+  TARGET_COLS,
+  FIX_ROWS,
+  FRAME_RATE,
+  ANIMATION_SPEED,
+  FREEZE_DURATION,
+  ZIGZAG_OFFSET,
+  BOND,
+  PLAYLIST,
+  MOSAIC_PHOTO,
+  WALL_RELAY,
+  REMOTE_RELAY,
+} from './config';
+import { BOND_TYPES } from './bonds';
+import type { BondType } from './bonds';
+
+// --- Per-venue settings ---
+// The config constants are the defaults; a venue overrides them with a named
+// preset and/or query parameters, e.g.
+//   /installations/proliferation?preset=portrait&fps=20&zigzag=0.2
+//   /installations/proliferation?bond=flemish&cols=6
+//   /installations/proliferation?playlist=evening
+//   /installations/proliferation?mosaic=rotterdam.jpg
+//   /installations/proliferation?wallCols=2&wallRows=2&tileX=1&tileY=0&bezel=40
+//   /installations/proliferation?remote=ws://10.0.0.2:8788&kiosk=lobby
+
+export interface SketchSettings {
+  targetRows: number; // Rows when fixRows is on
+  targetCols: number; // Columns when fixRows is off
+  fixRows: boolean; // Fix rows and fit columns, or fix columns and fit rows
+  frameRate: number; // Frames drawn per second - smoothness only, programs run at the same pace at any rate
+  animationSpeed: number; // Multiplier on STEPS_PER_SECOND
+  freezeDuration: number; // Seconds to hold each finished program
+  zigzagOffset: number; // Alternating row offset, as a fraction of the cell width (grid bond only)
+  bond: BondType; // How the bricks are laid - the grid, or a real masonry bond
+  playlist: string; // Playlist file name under PLAYLIST_DIR, or '' for the default rotation
+  mosaicPhoto: string; // Photo file name under MOSAIC_DIR, or '' for none
+  wallCols: number; // Screens across a video wall (1 by 1 = a single screen)
+  wallRows: number; // Screens down a video wall
+  tileX: number; // This screen's column in the video wall, from 0 at the left
+  tileY: number; // This screen's row in the video wall, from 0 at the top
+  bezel: number; // Pixels of wall hidden behind the frames between two screens
+  wallRelay: string; // WebSocket relay linking the screens of a wall across machines, or '' for one machine
+  remoteRelay: string; // Relay of the /control page, or '' for no remote control
+  kioskName: string; // What the control page calls this screen, or '' to show its id
+}
+
+export const DEFAULT_SETTINGS: SketchSettings = {
+  targetRows: TARGET_ROWS,
+  targetCols: TARGET_COLS,
+  fixRows: FIX_ROWS,
+  frameRate: FRAME_RATE,
+  animationSpeed: ANIMATION_SPEED,
+  freezeDuration: FREEZE_DURATION,
+  zigzagOffset: ZIGZAG_OFFSET,
+  bond: BOND,
+  playlist: PLAYLIST,
+  mosaicPhoto: MOSAIC_PHOTO,
+  wallCols: 1,
+  wallRows: 1,
+  tileX: 0,
+  tileY: 0,
+  bezel: 0,
+  wallRelay: WALL_RELAY,
+  remoteRelay: REMOTE_RELAY,
+  kioskName: '',
+};
+
+export const SETTINGS_PRESETS: Record<string, Partial<SketchSettings>> = {
+  landscape: {}, // The gallery's wide monitor - the defaults
+  portrait: { targetCols: 4 }, // Monitor on its side: fewer, taller columns
+  projector: { targetCols: 14, frameRate: 24, animationSpeed: 0.75, freezeDuration: 2 }, // Big wall, smoother and slower
+  phone: { targetCols: 3, frameRate: 12, zigzagOffset: 0.05 }, // Small screen, light on the battery
+};
+
+interface SettingField {
+  key: keyof SketchSettings;
+  param: string; // Query parameter name
+  type: 'integer' | 'number' | 'boolean' | 'choice' | 'name' | 'url';
+  min?: number;
+  max?: number;
+  choices?: readonly string[]; // Allowed values of a choice
+  pattern?: RegExp; // What a name must look like (default: letters, digits, - and _)
+}
+
+const SETTING_FIELDS: SettingField[] = [
+  { key: 'targetRows', param: 'rows', type: 'integer', min: 1, max: 200 },
+  { key: 'targetCols', param: 'cols', type: 'integer', min: 1, max: 200 },
+  { key: 'fixRows', param: 'fixRows', type: 'boolean' },
+  { key: 'frameRate', param: 'fps', type: 'number', min: 1, max: 60 },
+  { key: 'animationSpeed', param: 'speed', type: 'number', min: 0.05, max: 16 },
+  { key: 'freezeDuration', param: 'freeze', type: 'number', min: 0, max: 600 },
+  { key: 'zigzagOffset', param: 'zigzag', type: 'number', min: 0, max: 0.5 },
+  { key: 'bond', param: 'bond', type: 'choice', choices: BOND_TYPES },
+  { key: 'playlist', param: 'playlist', type: 'name' },
+  { key: 'mosaicPhoto', param: 'mosaic', type: 'name', pattern: /^[\w-]+\.(png|jpe?g|webp)$/i },
+  { key: 'wallCols', param: 'wallCols', type: 'integer', min: 1, max: 8 },
+  { key: 'wallRows', param: 'wallRows', type: 'integer', min: 1, max: 8 },
+  { key: 'tileX', param: 'tileX', type: 'integer', min: 0, max: 7 },
+  { key: 'tileY', param: 'tileY', type: 'integer', min: 0, max: 7 },
+  { key: 'bezel', param: 'bezel', type: 'number', min: 0, max: 500 },
+  { key: 'wallRelay', param: 'relay', type: 'url' },
+  { key: 'remoteRelay', param: 'remote', type: 'url' },
+  { key: 'kioskName', param: 'kiosk', type: 'name' },
+];
+
+export const SETTING_PARAMS: string[] = ['preset', ...SETTING_FIELDS.map(field => field.param)];
+
+export interface ParsedSettings {
+  settings: SketchSettings;
+  preset: string | null;
+  errors: string[]; // One message per rejected value - those fall back to the preset/default
+}
+
+type FieldResult = { value: number | boolean | string } | { error: string };
+
+function parseField(field: SettingField, raw: string): FieldResult {
+  if (field.type === 'boolean') {
+    if (raw === 'true' || raw === '1') return { value: true };
+    if (raw === 'false' || raw === '0') return { value: false };
+    return { error: `${field.param} must be true or false (got "${raw}")` };
+  }
+
+  if (field.type === 'choice') {
+    if (field.choices?.includes(raw)) return { value: raw };
+    return { error: `${field.param} must be one of ${field.choices?.join(', ')} (got "${raw}")` };
+  }
+
+  if (field.type === 'url') {
+    if (/^wss?:\/\/[^\s/?#]+/.test(raw)) return { value: raw };
+    return { error: `${field.param} must be a ws:// or wss:// address (got "${raw}")` };
+  }
+
+  if (field.type === 'name') {
+    // File names and kiosk names - letters, digits, - and _ only (plus an extension where the pattern allows one)
+    if ((field.pattern ?? /^[\w-]+$/).test(raw)) return { value: raw };
+    const expected = field.pattern ? `matching ${field.pattern}` : 'of letters, digits, - and _';
+    return { error: `${field.param} must be a name ${expected} (got "${raw}")` };
+  }
+
+  const value = Number(raw);
+  const range = `between ${field.min} and ${field.max}`;
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    return { error: `${field.param} must be a number ${range} (got "${raw}")` };
+  }
+  if (field.type === 'integer' && !Number.isInteger(value)) {
+    return { error: `${field.param} must be a whole number ${range} (got "${raw}")` };
+  }
+  if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+    return { error: `${field.param} must be ${range} (got ${value})` };
+  }
+  return { value };
+}
+
+/**
+ * Build the settings for this screen from the query string. A preset is
+ * applied first and individual parameters override it. Bad values are
+ * reported and skipped rather than stopping the installation.
+ */
+export function parseSettings(query: URLSearchParams): ParsedSettings {
+  const errors: string[] = [];
+  let settings: SketchSettings = { ...DEFAULT_SETTINGS };
+
+  const preset = query.get('preset');
+  if (preset !== null) {
+    if (preset in SETTINGS_PRESETS) {
+      settings = { ...settings, ...SETTINGS_PRESETS[preset] };
+    } else {
+      errors.push(`preset must be one of ${Object.keys(SETTINGS_PRESETS).join(', ')} (got "${preset}")`);
+    }
+  }
+
+  for (const field of SETTING_FIELDS) {
+    const raw = query.get(field.param);
+    if (raw === null) continue;
+    const result = parseField(field, raw);
+    if ('error' in result) {
+      errors.push(result.error);
+    } else {
+      settings = { ...settings, [field.key]: result.value };
+    }
+  }
+
+  // A tile outside the wall would show nothing - fall back to the wall's first screen
+  if (settings.tileX >= settings.wallCols || settings.tileY >= settings.wallRows) {
+    errors.push(`tileX, tileY must be inside the ${settings.wallCols}x${settings.wallRows} wall (got ${settings.tileX}, ${settings.tileY})`);
+    settings = { ...settings, tileX: 0, tileY: 0 };
+  }
+
+  for (const key of query.keys()) {
+    if (!SETTING_PARAMS.includes(key)) {
+      errors.push(`Unknown parameter "${key}" (expected ${SETTING_PARAMS.join(', ')})`);
+    }
+  }
+
+  return { settings, preset: preset !== null && preset in SETTINGS_PRESETS ? preset : null, errors };
+}
@@ -0,0 +1,150 @@
+import { CELL_CLAY, TRANSITION_STYLES } from '../types';
+import { randomSeed, remapGrid, resolvePlaylist } from '../engine';
+import type { CellTransition, EngineOptions, EngineState } from '../engine';
+import { MatrixTopology } from '../bonds';
+import type { GridTopology } from '../bonds';
+import type { Playlist, PlaylistEntry } from '../playlists';
+import type { ProgramParams } from '../programs';
+import { CHANGE_FIELDS } from './protocol';
+import type { FrameUpdate, MirrorCommand } from './protocol';
+import type { SimulationHost } from './SimulationHost';
+
+/**
+ * A copy of an engine's grid for drawing, kept in step by frames holding the
+ * cells that changed - the engine itself runs elsewhere (a Web Worker, or the
+ * leading screen of a video wall). Commands are passed on with send(); the
+ * subclass decides how they get there and how time reaches the engine.
+ */
+export abstract class MirrorSimulation implements SimulationHost {
+  readonly rows: number;
+  readonly cols: number;
+  readonly seed: number;
+  readonly topology: GridTopology;
+
+  protected grid: number[][];
+  protected transitions: (CellTransition | null)[][];
+  protected frame: number = 0;
+  protected playlist: Playlist;
+  protected program: string;
+  protected entry: PlaylistEntry;
+  protected speed: number;
+  protected onProgramChange?: (name: string, entry: PlaylistEntry) => void;
+
+  constructor(options: EngineOptions) {
+    this.rows = options.rows;
+    this.cols = options.cols;
+    this.topology = options.topology ?? new MatrixTopology(this.rows, this.cols);
+    this.seed = options.seed ?? randomSeed(); // Picked here so it can be logged straight away
+    this.onProgramChange = options.onProgramChange;
+
+    this.grid = Array(this.rows).fill(null).map(() => Array(this.cols).fill(CELL_CLAY));
+    this.transitions = Array(this.rows).fill(null).map(() => Array(this.cols).fill(null));
+    this.playlist = resolvePlaylist(options);
+    this.entry = this.playlist.entries[0];
+    this.program = this.entry.program;
+    this.speed = this.entry.speed ?? options.speed ?? 1;
+  }
+
+  protected abstract send(command: MirrorCommand): void;
+
+  abstract step(programSteps?: number): void;
+  abstract advance(ticks: number): void;
+  abstract saveState(): EngineState | Promise<EngineState>;
+  abstract resumeFrom(state: EngineState): void;
+
+  protected applyFrame(update: FrameUpdate) {
+    const { changes } = update;
+    for (let i = 0; i < changes.length; i += CHANGE_FIELDS) {
+      const r = Math.floor(changes[i] / this.cols);
+      const c = changes[i] % this.cols;
+      if (r >= this.rows) continue;
+      this.grid[r][c] = changes[i + 1];
+      const style = changes[i + 3];
+      this.transitions[r][c] = style >= 0
+        ? { style: TRANSITION_STYLES[style], from: changes[i + 2], frames: changes[i + 4], startFrame: changes[i + 5] }
+        : null;
+    }
+    this.frame = update.frame;
+    this.program = update.program;
+    this.entry = update.entry;
+    this.speed = update.speed;
+    if (update.programChanged) this.onProgramChange?.(update.program, update.entry);
+  }
+
+  // Show a carried-over grid now rather than clay until the engine catches up
+  protected showState(state: EngineState) {
+    remapGrid(state.grid, this.rows, this.cols).forEach((row, r) => row.forEach((value, c) => {
+      this.grid[r][c] = value;
+    }));
+    this.program = state.program;
+    this.entry = this.playlist.entries[state.entry]?.program === state.program
+      ? this.playlist.entries[state.entry]
+      : this.playlist.entries.find(entry => entry.program === state.program) ?? this.entry;
+  }
+
+  selectProgram(name: string, params?: Partial<ProgramParams>) {
+    const entry = this.playlist.entries.find(candidate => candidate.program === name);
+    if (!entry) {
+      throw new Error(`Program "${name}" is not in this engine's rotation`);
+    }
+    this.program = name;
+    this.entry = entry;
+    this.send({ type: 'selectProgram', name, params });
+  }
+
+  paintCell(row: number, col: number, value: number) {
+    // Shown straight away - the engine's frame confirms it
+    if (this.grid[row]?.[col] !== undefined) this.grid[row][col] = value;
+    this.send({ type: 'paintCell', row, col, value });
+  }
+
+  setAutonomous(autonomous: boolean) {
+    this.send({ type: 'setAutonomous', autonomous });
+  }
+
+  setSpeed(speed: number) {
+    this.speed = Math.max(0, speed);
+    this.send({ type: 'setSpeed', speed });
+  }
+
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  getFrame(): number {
+    return this.frame;
+  }
+
+  getGrid(): readonly (readonly number[])[] {
+    return this.grid;
+  }
+
+  getTransition(row: number, col: number): (CellTransition & { progress: number }) | null {
+    const transition = this.transitions[row]?.[col];
+    if (!transition) return null;
+
+    // The same timing as ProliferationEngine.getTransition, on the engine's frame count
+    const progress = (this.frame - transition.startFrame + 1) / transition.frames;
+    if (progress >= 1) {
+      this.transitions[row][col] = null;
+      return null;
+    }
+    return { ...transition, progress };
+  }
+
+  snapshot(): number[][] {
+    return this.grid.map(row => [...row]);
+  }
+
+  getProgramNames(): string[] {
+    return [...new Set(this.playlist.entries.map(entry => entry.program))];
+  }
+
+  getCurrentProgramName(): string {
+    return this.program;
+  }
+
+  getCurrentEntry(): PlaylistEntry {
+    return this.entry;
+  }
+}
@@ -0,0 +1,34 @@
+import type { GridTopology } from '../bonds';
+import type { EngineState } from '../engine';
+import type { PlaylistEntry } from '../playlists';
+import type { MosaicImage, ProgramParams } from '../programs';
+import type { DrawableGrid } from '../rendering/grid';
+
+/**
+ * What the sketch drives and draws: a ProliferationEngine on the main thread,
+ * or a WorkerSimulation mirroring one that runs in a Web Worker. Commands
+ * take effect in order either way; a worker's grid catches up a frame later.
+ */
+export interface SimulationHost extends DrawableGrid {
+  readonly rows: number;
+  readonly cols: number;
+  readonly seed: number;
+  readonly topology: GridTopology;
+
+  step(programSteps?: number): void;
+  advance(ticks: number): void; // Run the ticks a Scheduler says are due
+  selectProgram(name: string, params?: Partial<ProgramParams>): void;
+  paintCell(row: number, col: number, value: number): void;
+  setAutonomous(autonomous: boolean): void;
+  setSpeed(speed: number): void;
+  getSpeed(): number;
+  getFrame(): number; // Ticks the engine has run
+  getProgramNames(): string[];
+  getCurrentProgramName(): string;
+  getCurrentEntry(): PlaylistEntry;
+  snapshot(): number[][];
+  saveState(): EngineState | Promise<EngineState>;
+  resumeFrom(state: EngineState): void;
+  setMosaicImage?(image: MosaicImage | null): void; // Pass a new mosaic photo on to a worker - the main thread's is set with setMosaicImage()
+  dispose?(): void; // Stop the simulation for good (e.g. terminate its worker)
+}
@@ -0,0 +1,136 @@
+import { MAX_CATCH_UP, TICK_RATE } from '../config';
+import type { EngineOptions, EngineState } from '../engine';
+import { getMosaicImage, hasMosaicImage } from '../programs';
+import type { MosaicImage } from '../programs';
+import { topologySpec } from './protocol';
+import type { WorkerCommand, WorkerMessage } from './protocol';
+import { MirrorSimulation } from './MirrorSimulation';
+
+// Steps the worker may fall behind by before frames are dropped - the show
+// slows down rather than queueing up work and lagging further and further
+const MAX_PENDING_STEPS = 2;
+// Ticks held back while the worker is behind, at most - sent with the next
+// advance so the show keeps time, but a worker that never catches up only
+// ever owes a second or so rather than a growing backlog
+const MAX_OWED_TICKS = Math.round(TICK_RATE * MAX_CATCH_UP);
+// Milliseconds to wait for the worker's state before giving up on it
+const STATE_TIMEOUT = 5000;
+
+interface StateRequest {
+  resolve: (state: EngineState) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Runs the engine in a Web Worker and keeps a copy of its grid here for
+ * drawing. Each frame the worker posts only the cells that changed, with
+ * their transitions, so the main thread never steps programs or builds paths.
+ */
+export class WorkerSimulation extends MirrorSimulation {
+  private worker: Worker;
+  private pending: number = 0; // Commands the worker hasn't answered yet
+  private owedTicks: number = 0; // Ticks due while the worker was behind
+  private nextStateId: number = 0;
+  private stateRequests: Map<number, StateRequest> = new Map();
+
+  constructor(options: EngineOptions) {
+    super(options);
+    // Callbacks and class instances can't be posted - the topology goes as a spec
+    const posted: Omit<EngineOptions, 'topology' | 'onProgramChange'> & Partial<EngineOptions> = { ...options };
+    delete posted.topology;
+    delete posted.onProgramChange;
+
+    this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<WorkerMessage>) => this.receive(event.data);
+    this.worker.onerror = event => {
+      console.error('Simulation worker failed:', event.message);
+      this.rejectStateRequests(new Error(`Simulation worker failed: ${event.message}`));
+    };
+    // A fresh worker has no photo yet - send the main thread's before the first program resets
+    if (hasMosaicImage()) this.send({ type: 'setMosaicImage', image: getMosaicImage() });
+    this.send({ type: 'init', options: { ...posted, seed: this.seed, bond: topologySpec(this.topology) } });
+  }
+
+  protected send(command: WorkerCommand) {
+    if (command.type !== 'saveState') this.pending++;
+    this.worker.postMessage(command);
+  }
+
+  private receive(message: WorkerMessage) {
+    switch (message.type) {
+      case 'frame':
+        this.pending = Math.max(0, this.pending - 1);
+        this.applyFrame(message);
+        break;
+      case 'state': {
+        const request = this.stateRequests.get(message.id);
+        if (!request) break;
+        clearTimeout(request.timer);
+        this.stateRequests.delete(message.id);
+        request.resolve(message.state);
+        break;
+      }
+      case 'error':
+        this.pending = Math.max(0, this.pending - 1);
+        console.error('Simulation worker error:', message.message);
+        // Errors don't say which command failed, so no state request can count on an answer
+        this.rejectStateRequests(new Error(`Simulation worker error: ${message.message}`));
+        break;
+    }
+  }
+
+  private rejectStateRequests(error: Error) {
+    for (const request of this.stateRequests.values()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.stateRequests.clear();
+  }
+
+  /**
+   * Ask the worker for the next frame - skipped while it is still behind,
+   * unless programSteps asks for an exact single step
+   */
+  step(programSteps?: number) {
+    if (programSteps === undefined && this.pending >= MAX_PENDING_STEPS) return;
+    this.send({ type: 'step', programSteps });
+  }
+
+  /**
+   * Ask the worker to run the due ticks - held back while it is still behind
+   * and sent along with the next advance once it has caught up
+   */
+  advance(ticks: number) {
+    this.owedTicks = Math.min(this.owedTicks + ticks, MAX_OWED_TICKS);
+    if (this.pending >= MAX_PENDING_STEPS || this.owedTicks === 0) return;
+    this.send({ type: 'advance', ticks: this.owedTicks });
+    this.owedTicks = 0;
+  }
+
+  saveState(): Promise<EngineState> {
+    const id = this.nextStateId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.stateRequests.delete(id);
+        reject(new Error(`Simulation worker didn't send its state within ${STATE_TIMEOUT / 1000}s`));
+      }, STATE_TIMEOUT);
+      this.stateRequests.set(id, { resolve, reject, timer });
+      this.send({ type: 'saveState', id });
+    });
+  }
+
+  resumeFrom(state: EngineState) {
+    this.showState(state);
+    this.send({ type: 'resumeFrom', state });
+  }
+
+  setMosaicImage(image: MosaicImage | null) {
+    this.send({ type: 'setMosaicImage', image });
+  }
+
+  dispose() {
+    this.worker.terminate();
+    this.rejectStateRequests(new Error('Simulation worker was disposed'));
+  }
+}
@@ -0,0 +1,26 @@
+import { SIMULATION_WORKER } from '../config';
+import { ProliferationEngine } from '../engine';
+import type { EngineOptions } from '../engine';
+import { WorkerSimulation } from './WorkerSimulation';
+import type { SimulationHost } from './SimulationHost';
+
+/**
+ * The engine for the live sketch - in a Web Worker where the browser has them
+ * (and SIMULATION_WORKER is on), otherwise on the main thread
+ */
+export function createSimulation(options: EngineOptions): SimulationHost {
+  if (SIMULATION_WORKER && typeof Worker !== 'undefined') {
+    try {
+      return new WorkerSimulation(options);
+    } catch (error) {
+      console.warn('Could not start the simulation worker, running on the main thread:', error);
+    }
+  }
+  return new ProliferationEngine(options);
+}
+
+export { MirrorSimulation } from './MirrorSimulation';
+export { WorkerSimulation } from './WorkerSimulation';
+export type { SimulationHost } from './SimulationHost';
+export { CHANGE_FIELDS, collectChanges, topologySpec, topologyFromSpec } from './protocol';
+export type { FrameUpdate, MirrorCommand, TopologySpec, WorkerCommand, WorkerMessage, WorkerEngineOptions } from './protocol';
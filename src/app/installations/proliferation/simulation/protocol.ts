@@ -0,0 +1,100 @@
+import { BondTopology, MatrixTopology } from '../bonds';
+import type { BrickRect, GridTopology } from '../bonds';
+import type { EngineOptions, EngineState } from '../engine';
+import type { PlaylistEntry } from '../playlists';
+import type { MosaicImage, ProgramParams } from '../programs';
+import type { DrawableGrid } from '../rendering/grid';
+import { TRANSITION_STYLES } from '../types';
+
+// --- Worker messages ---
+// The main thread sends commands; the worker answers every command but
+// saveState with one frame message holding the cells that changed since its
+// last frame, so the main thread's copy of the grid stays in step.
+
+// A masonry bond's bricks - topologies are classes, so the worker rebuilds them from this
+export interface TopologySpec {
+  rects: BrickRect[];
+  width: number;
+  height: number;
+}
+
+// Engine options that survive postMessage - no callbacks, no class instances
+export type WorkerEngineOptions = Omit<EngineOptions, 'topology' | 'onProgramChange'> & {
+  seed: number;
+  bond: TopologySpec | null; // null for the plain grid
+};
+
+// Commands any copy of the engine passes on as they are (see MirrorSimulation)
+export type MirrorCommand =
+  | { type: 'step'; programSteps?: number }
+  | { type: 'selectProgram'; name: string; params?: Partial<ProgramParams> }
+  | { type: 'paintCell'; row: number; col: number; value: number }
+  | { type: 'setAutonomous'; autonomous: boolean }
+  | { type: 'setSpeed'; speed: number };
+
+export type WorkerCommand =
+  | MirrorCommand
+  | { type: 'init'; options: WorkerEngineOptions }
+  | { type: 'advance'; ticks: number }
+  | { type: 'resumeFrom'; state: EngineState }
+  | { type: 'setMosaicImage'; image: MosaicImage | null }
+  | { type: 'saveState'; id: number };
+
+// What a copy of the grid needs to catch up with the engine
+export interface FrameUpdate {
+  frame: number; // The engine's frame count
+  changes: ArrayLike<number>; // CHANGE_FIELDS numbers per changed cell, see below
+  program: string;
+  entry: PlaylistEntry;
+  speed: number;
+  programChanged: boolean; // The rotation moved on during this frame
+}
+
+export type WorkerMessage =
+  | FrameUpdate & { type: 'frame'; changes: Int32Array }
+  | { type: 'state'; id: number; state: EngineState }
+  | { type: 'error'; message: string };
+
+// Each changed cell in a frame's changes:
+// [row * cols + col, value, transition from, transition style (index into
+// TRANSITION_STYLES, -1 for none), transition frames, transition start frame]
+export const CHANGE_FIELDS = 6;
+
+/**
+ * The cells of a grid that differ from shown, CHANGE_FIELDS numbers each.
+ * shown is the copy as of the last changes sent, and is brought up to date.
+ */
+export function collectChanges(source: DrawableGrid & { rows: number; cols: number }, shown: Int32Array): number[] {
+  const grid = source.getGrid();
+  const changes: number[] = [];
+  for (let r = 0; r < source.rows; r++) {
+    for (let c = 0; c < source.cols; c++) {
+      const i = r * source.cols + c;
+      if (grid[r][c] === shown[i]) continue;
+      shown[i] = grid[r][c];
+      const transition = source.getTransition?.(r, c) ?? null;
+      changes.push(
+        i,
+        grid[r][c],
+        transition?.from ?? -1,
+        transition ? TRANSITION_STYLES.indexOf(transition.style) : -1,
+        transition?.frames ?? 0,
+        transition?.startFrame ?? 0
+      );
+    }
+  }
+  return changes;
+}
+
+export function topologySpec(topology: GridTopology): TopologySpec | null {
+  if (!(topology instanceof BondTopology)) return null;
+  return {
+    rects: topology.bricks.map(({ x, y, w, h }) => ({ x, y, w, h })),
+    width: topology.width,
+    height: topology.height,
+  };
+}
+
+export function topologyFromSpec(spec: TopologySpec | null, rows: number, cols: number): GridTopology {
+  return spec ? new BondTopology(spec.rects, spec.width, spec.height) : new MatrixTopology(rows, cols);
+}
@@ -0,0 +1,94 @@
+// Runs a ProliferationEngine off the main thread (see WorkerSimulation).
+// Importing the engine imports the programs, so the built-in programs are
+// registered here too; programs registered at runtime on the main thread are not.
+import { ProliferationEngine } from '../engine';
+import { setMosaicImage } from '../programs';
+import { CELL_CLAY } from '../types';
+import { collectChanges, topologyFromSpec } from './protocol';
+import type { WorkerCommand, WorkerMessage } from './protocol';
+
+// The worker's global scope, typed for the messages it exchanges
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerCommand>) => void) | null;
+  postMessage(message: WorkerMessage, transfer?: Transferable[]): void;
+};
+
+let engine: ProliferationEngine | null = null;
+let shown: Int32Array = new Int32Array(0); // The main thread's copy of the grid, as of the last frame sent
+let programChanged: boolean = false;
+
+// Send the cells that changed since the last frame, CHANGE_FIELDS numbers each
+const postFrame = () => {
+  if (!engine) return;
+  const packed = Int32Array.from(collectChanges(engine, shown)); // Transferred, not copied
+  scope.postMessage({
+    type: 'frame',
+    frame: engine.getFrame(),
+    changes: packed,
+    program: engine.getCurrentProgramName(),
+    entry: engine.getCurrentEntry(),
+    speed: engine.getSpeed(),
+    programChanged,
+  }, [packed.buffer]);
+  programChanged = false;
+};
+
+const handle = (command: WorkerCommand) => {
+  if (command.type === 'setMosaicImage') {
+    // Module state, like on the main thread - it outlives engines
+    setMosaicImage(command.image);
+    postFrame();
+    return;
+  }
+
+  if (command.type === 'init') {
+    const { bond, ...options } = command.options;
+    engine = new ProliferationEngine({
+      ...options,
+      topology: topologyFromSpec(bond, options.rows, options.cols),
+      onProgramChange: () => {
+        programChanged = true;
+      },
+    });
+    shown = new Int32Array(engine.rows * engine.cols).fill(CELL_CLAY); // The main thread starts from clay
+    postFrame();
+    return;
+  }
+
+  if (!engine) throw new Error(`Simulation worker got "${command.type}" before init`);
+  switch (command.type) {
+    case 'step':
+      engine.step(command.programSteps);
+      break;
+    case 'advance':
+      engine.advance(command.ticks);
+      break;
+    case 'selectProgram':
+      engine.selectProgram(command.name, command.params);
+      break;
+    case 'paintCell':
+      engine.paintCell(command.row, command.col, command.value);
+      break;
+    case 'setAutonomous':
+      engine.setAutonomous(command.autonomous);
+      break;
+    case 'setSpeed':
+      engine.setSpeed(command.speed);
+      break;
+    case 'resumeFrom':
+      engine.resumeFrom(command.state);
+      break;
+    case 'saveState':
+      scope.postMessage({ type: 'state', id: command.id, state: engine.saveState() });
+      return;
+  }
+  postFrame();
+};
+
+scope.onmessage = event => {
+  try {
+    handle(event.data);
+  } catch (error) {
+    scope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,99 @@
+import type { GridTopology } from './bonds';
+
+// Type for p5 instance - using a more specific type
+export interface P5Instance {
+  width: number
+  height: number
+  mouseX: number
+  mouseY: number
+  windowWidth: number
+  windowHeight: number
+  deltaTime: number // Milliseconds since the previous frame
+  createCanvas: (width: number, height: number) => { parent: (element: HTMLElement) => void }
+  background: (r: number, g?: number, b?: number) => void
+  fill: (r: number, g?: number, b?: number) => void
+  noStroke: () => void
+  rect: (x: number, y: number, w: number, h: number) => void
+  frameRate: (fps: number) => void
+  resizeCanvas: (width: number, height: number) => void
+  loadImage: (path: string) => Promise<P5Image>
+  createImage: (width: number, height: number) => P5Image
+  canvas: HTMLCanvasElement
+  textAlign: (horizAlign: string, vertAlign?: string) => void
+  textSize: (size: number) => void
+  text: (str: string, x: number, y: number) => void
+  push: () => void
+  pop: () => void
+  translate: (x: number, y: number) => void
+  scale: (s: number) => void
+  rotate: (angle: number) => void
+  image: (
+    img: P5Image, x: number, y: number, w: number, h: number,
+    sx?: number, sy?: number, sw?: number, sh?: number
+  ) => void
+  tint: (gray: number, alpha?: number) => void
+  noTint: () => void
+  createGraphics: (width: number, height: number) => P5Graphics
+  CENTER: string
+  remove: () => void // The wrapper calls this when the sketch unmounts
+  [key: string]: unknown // Allow other p5 methods
+}
+
+// The drawing calls shared by the main canvas and offscreen buffers
+export type P5Surface = Pick<
+  P5Instance,
+  | 'width' | 'height' | 'background' | 'fill' | 'noStroke' | 'rect'
+  | 'push' | 'pop' | 'translate' | 'scale' | 'rotate' | 'image' | 'tint' | 'noTint'
+>
+
+// Type for p5.Graphics offscreen buffers
+export interface P5Graphics extends P5Surface {
+  elt: HTMLCanvasElement
+  pixelDensity: (density: number) => void
+  remove: () => void
+}
+
+// Type for p5 image objects
+export interface P5Image {
+  width: number
+  height: number
+  pixels: Uint8ClampedArray
+  loadPixels: () => void
+  updatePixels: () => void
+}
+
+// --- Grid cell states ---
+// A cell holds an index into the material palette (see materials.ts).
+// Clay and brick are always the first two entries.
+export const CELL_CLAY = 0;
+export const CELL_BRICK = 1;
+
+// --- Cell transitions ---
+// How a cell animates from its old material to its new one
+export type TransitionStyle = 'cut' | 'crossfade' | 'slide' | 'flip' | 'crumble';
+
+export const TRANSITION_STYLES: TransitionStyle[] = ['cut', 'crossfade', 'slide', 'flip', 'crumble'];
+
+export interface TransitionSpec {
+  style: TransitionStyle;
+  duration: number; // Length of the animation in seconds
+}
+
+export type GridUpdater = (row: number, col: number, value: number) => void;
+
+// Programs never touch p5 - the engine paces them and the sketch draws the grid
+export interface Program {
+  reset: () => void;
+  update: () => void; // Advance one animation step
+  isDone: () => boolean;
+}
+
+// Everything a program needs to run against the engine's grid
+export interface ProgramContext {
+  updateGridState: GridUpdater;
+  getGridState: () => number[][];
+  rows: number;
+  cols: number;
+  random: () => number; // Seeded - use instead of Math.random() so runs are reproducible
+  topology: GridTopology; // Which cells are bricks, which touch, and the paths across them
+}
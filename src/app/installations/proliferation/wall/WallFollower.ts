@@ -0,0 +1,79 @@
+import type { EngineOptions, EngineState } from '../engine';
+import { MirrorSimulation } from '../simulation';
+import type { MirrorCommand } from '../simulation';
+import type { WallFrame } from './protocol';
+import type { WallLink } from './WallLink';
+
+/**
+ * A video wall screen that isn't leading: mirrors the leader's grid from its
+ * frames and passes commands from its controls and visitors on to it. It
+ * keeps no time of its own - the leader's scheduler paces the whole wall.
+ */
+export class WallFollower extends MirrorSimulation {
+  private link: WallLink;
+  private mismatchReported: boolean = false;
+  private synced: boolean = false; // Whether a frame has come from the leader yet
+
+  constructor(options: EngineOptions, link: WallLink) {
+    super(options);
+    this.link = link;
+    this.link.requestGrid();
+  }
+
+  protected send(command: MirrorCommand) {
+    this.link.sendCommand(command);
+  }
+
+  /**
+   * Catch up with a frame from the leader
+   */
+  receive(frame: WallFrame) {
+    if (frame.rows !== this.rows || frame.cols !== this.cols) {
+      if (!this.mismatchReported) {
+        console.warn(`Video wall leader has a ${frame.rows}x${frame.cols} grid but this screen ${this.rows}x${this.cols} - the screens need the same size and settings`);
+        this.mismatchReported = true;
+      }
+      if (frame.cols !== this.cols) return; // Cell indexes wouldn't line up
+    }
+    this.applyFrame(frame);
+    this.synced = true;
+  }
+
+  /**
+   * Whether this screen has heard from a leader - before that it shows clay, not the wall
+   */
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  step(programSteps?: number) {
+    if (programSteps !== undefined) this.send({ type: 'step', programSteps });
+  }
+
+  advance() {
+    // The leader keeps time for the whole wall
+  }
+
+  /**
+   * What this screen shows, for the engine it hands over to. A follower can't
+   * tell how far the leader's program got, so the state is saved as finished:
+   * a screen taking over as leader holds the wall as it was, then moves on.
+   */
+  saveState(): EngineState {
+    return {
+      program: this.program,
+      params: null,
+      entry: Math.max(0, this.playlist.entries.findIndex(entry => entry.program === this.program)),
+      steps: 0,
+      cells: this.rows * this.cols,
+      frozen: true,
+      freezeCounter: 0,
+      interrupted: false,
+      grid: this.snapshot(),
+    };
+  }
+
+  resumeFrom(state: EngineState) {
+    this.showState(state); // Until the leader's next frame
+  }
+}
@@ -0,0 +1,152 @@
+import { collectChanges } from '../simulation';
+import type { SimulationHost } from '../simulation';
+import type { WallCommand, WallFrame, WallMessage } from './protocol';
+import type { WallTransport } from './transport';
+
+const HEARTBEAT_INTERVAL = 500; // Milliseconds between a screen's heartbeats
+const LEADER_TIMEOUT = 2000; // Milliseconds without a heartbeat before a screen counts as gone
+
+export type WallRole = 'leader' | 'follower';
+
+export interface WallLinkHandlers {
+  onRoleChange: (role: WallRole) => void;
+  onFrame: (frame: WallFrame) => void; // Followers: the leader's latest cells
+  onCommand: (command: WallCommand) => void; // Leader: a follower's controls or visitors
+}
+
+interface Peer {
+  id: string;
+  tile: number;
+  leader: boolean;
+  seen: number; // Date.now() of its last heartbeat
+}
+
+// Lower tile first, then id - every screen ranks the others the same way
+const ranksBefore = (a: { tile: number; id: string }, b: { tile: number; id: string }): boolean =>
+  a.tile < b.tile || (a.tile === b.tile && a.id < b.id);
+
+/**
+ * One screen's link to the rest of a video wall. Screens announce themselves
+ * with heartbeats; once every screen has had time to be heard, the first
+ * by tile (the top left) leads, and when the leader goes quiet the first of
+ * the others takes over. A leader stays leader while it is alive, so a
+ * screen that comes back late follows rather than restarting the show.
+ * Only the leader runs the engine - it publishes the cells that changed each
+ * frame, and followers draw their slice of them.
+ */
+export class WallLink {
+  readonly id: string = Math.random().toString(36).slice(2, 10); // Tells apart two windows given the same tile
+  private transport: WallTransport;
+  private tile: number;
+  private handlers: WallLinkHandlers;
+  private role: WallRole = 'follower';
+  private peers: Map<string, Peer> = new Map();
+  private started: number = Date.now();
+  private timer: ReturnType<typeof setInterval>;
+  private shown: Int32Array = new Int32Array(0); // The followers' copy of the grid, as of the last frame published
+  private lastProgram: string | null = null;
+
+  constructor(transport: WallTransport, tile: number, handlers: WallLinkHandlers) {
+    this.transport = transport;
+    this.tile = tile;
+    this.handlers = handlers;
+    this.transport.onMessage = message => this.receive(message);
+    this.timer = setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL);
+    this.heartbeat();
+  }
+
+  getRole(): WallRole {
+    return this.role;
+  }
+
+  private receive(message: WallMessage) {
+    switch (message.type) {
+      case 'heartbeat':
+        this.peers.set(message.id, { id: message.id, tile: message.tile, leader: message.leader, seen: Date.now() });
+        break;
+      case 'join':
+        if (this.role === 'leader') this.shown = new Int32Array(0); // The next frame sends every cell
+        break;
+      case 'command':
+        if (this.role === 'leader') this.handlers.onCommand(message.command);
+        break;
+      case 'frame':
+        if (this.role === 'follower') this.handlers.onFrame(message);
+        break;
+    }
+  }
+
+  private heartbeat() {
+    const now = Date.now();
+    for (const [id, peer] of this.peers) {
+      if (now - peer.seen > LEADER_TIMEOUT) this.peers.delete(id);
+    }
+    this.elect(now);
+    this.transport.send({ type: 'heartbeat', id: this.id, tile: this.tile, leader: this.role === 'leader' });
+  }
+
+  private elect(now: number) {
+    const self = { id: this.id, tile: this.tile };
+    const peers = [...this.peers.values()];
+    let role: WallRole;
+    if (this.role === 'leader') {
+      // Two leaders (e.g. after a relay came back) - the first by tile keeps the wall
+      role = peers.some(peer => peer.leader && ranksBefore(peer, self)) ? 'follower' : 'leader';
+    } else if (peers.some(peer => peer.leader)) {
+      role = 'follower';
+    } else {
+      // Nobody leads - wait to hear from everyone, then the first screen takes over
+      role = now - this.started >= LEADER_TIMEOUT && !peers.some(peer => ranksBefore(peer, self)) ? 'leader' : 'follower';
+    }
+
+    if (role === this.role) return;
+    this.role = role;
+    this.shown = new Int32Array(0);
+    this.lastProgram = null;
+    this.handlers.onRoleChange(role);
+  }
+
+  /**
+   * Leader: send the followers the cells that changed since the last frame
+   */
+  publish(source: SimulationHost, colorMode: string, playing: boolean) {
+    if (this.role !== 'leader') return;
+    if (this.shown.length !== source.rows * source.cols) {
+      this.shown = new Int32Array(source.rows * source.cols).fill(-1); // Nothing sent yet - every cell goes
+    }
+    const program = source.getCurrentProgramName();
+    this.transport.send({
+      type: 'frame',
+      frame: source.getFrame(),
+      changes: collectChanges(source, this.shown),
+      program,
+      entry: source.getCurrentEntry(),
+      speed: source.getSpeed(),
+      programChanged: this.lastProgram !== null && program !== this.lastProgram,
+      rows: source.rows,
+      cols: source.cols,
+      colorMode,
+      playing,
+    });
+    this.lastProgram = program;
+  }
+
+  /**
+   * Follower: pass a command on to the leader
+   */
+  sendCommand(command: WallCommand) {
+    this.transport.send({ type: 'command', command });
+  }
+
+  /**
+   * Follower: ask for every cell in the leader's next frame
+   */
+  requestGrid() {
+    this.transport.send({ type: 'join', id: this.id });
+  }
+
+  dispose() {
+    clearInterval(this.timer);
+    this.transport.close();
+  }
+}
@@ -0,0 +1,8 @@
+export { WallLink } from './WallLink';
+export type { WallLinkHandlers, WallRole } from './WallLink';
+export { WallFollower } from './WallFollower';
+export { ChannelTransport, RelayTransport, createTransport } from './transport';
+export type { WallTransport } from './transport';
+export { isVideoWall, tileIndex, wallView } from './view';
+export type { WallView } from './view';
+export type { WallCommand, WallFrame, WallMessage } from './protocol';
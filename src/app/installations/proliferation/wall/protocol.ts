@@ -0,0 +1,28 @@
+import type { FrameUpdate, MirrorCommand } from '../simulation';
+
+// --- Video wall messages ---
+// Every screen of a wall sends heartbeats, and the leader is elected from
+// them (see WallLink). Followers ask the leader to join and send it their
+// commands; the leader answers with a frame of the cells that changed each
+// time it draws. Through a relay the messages travel as JSON, so they hold
+// plain data only.
+
+// What a follower's controls and visitors ask of the leader
+export type WallCommand =
+  | MirrorCommand
+  | { type: 'setPlaying'; playing: boolean }
+  | { type: 'setColorMode'; colorMode: string };
+
+export interface WallFrame extends FrameUpdate {
+  changes: number[];
+  rows: number; // The leader's grid, so a follower can tell when the screens disagree
+  cols: number;
+  colorMode: string; // Filter preset the leader shows
+  playing: boolean;
+}
+
+export type WallMessage =
+  | { type: 'heartbeat'; id: string; tile: number; leader: boolean }
+  | { type: 'join'; id: string } // A follower wants the whole grid in the next frame
+  | { type: 'command'; command: WallCommand }
+  | WallFrame & { type: 'frame' };
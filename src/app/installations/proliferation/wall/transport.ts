@@ -0,0 +1,98 @@
+import { WALL_CHANNEL } from '../config';
+import type { WallMessage } from './protocol';
+
+// Milliseconds before reconnecting to a relay that went away
+const RELAY_RETRY = 2000;
+
+/**
+ * How the screens of a wall reach each other. Messages go to every other
+ * screen, never back to the sender.
+ */
+export interface WallTransport {
+  send(message: WallMessage): void;
+  onMessage: ((message: WallMessage) => void) | null;
+  close(): void;
+}
+
+/**
+ * Windows on one machine, over a BroadcastChannel shared by every window of the origin
+ */
+export class ChannelTransport implements WallTransport {
+  onMessage: ((message: WallMessage) => void) | null = null;
+  private channel: BroadcastChannel;
+
+  constructor(name: string = WALL_CHANNEL) {
+    this.channel = new BroadcastChannel(name);
+    this.channel.onmessage = (event: MessageEvent<WallMessage>) => this.onMessage?.(event.data);
+  }
+
+  send(message: WallMessage) {
+    this.channel.postMessage(message);
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+/**
+ * Screens on separate machines, through a WebSocket relay that passes every
+ * message on to the other connections (see scripts/relay.mjs). Keeps
+ * reconnecting while the relay is away; messages sent meanwhile are dropped,
+ * and the heartbeats and the next frames make up for them.
+ */
+export class RelayTransport implements WallTransport {
+  onMessage: ((message: WallMessage) => void) | null = null;
+  private url: string;
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected: boolean = false; // Whether the last attempt got through, so a relay that stays down is only reported once
+  private closed: boolean = false;
+
+  constructor(url: string) {
+    this.url = url;
+    this.connect();
+  }
+
+  private connect() {
+    const socket = new WebSocket(this.url);
+    socket.onopen = () => {
+      this.connected = true;
+      console.log(`🔌 Connected to the wall relay at ${this.url}`);
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      try {
+        this.onMessage?.(JSON.parse(event.data));
+      } catch (error) {
+        console.warn('Ignoring a malformed wall message:', error);
+      }
+    };
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.closed) return;
+      if (this.connected || this.retryTimer === null) {
+        console.warn(`Wall relay at ${this.url} is unreachable, retrying every ${RELAY_RETRY / 1000}s`);
+      }
+      this.connected = false;
+      this.retryTimer = setTimeout(() => this.connect(), RELAY_RETRY);
+    };
+    this.socket = socket;
+  }
+
+  send(message: WallMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) this.socket.send(JSON.stringify(message));
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+  }
+}
+
+/**
+ * A relay when one is set, otherwise a BroadcastChannel between the windows of this machine
+ */
+export function createTransport(relay: string): WallTransport {
+  return relay ? new RelayTransport(relay) : new ChannelTransport();
+}
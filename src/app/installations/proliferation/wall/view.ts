@@ -0,0 +1,30 @@
+import type { SketchSettings } from '../settings';
+
+type WallSettings = Pick<SketchSettings, 'wallCols' | 'wallRows' | 'tileX' | 'tileY' | 'bezel'>;
+
+export interface WallView {
+  width: number; // The whole wall, in this screen's pixels
+  height: number;
+  offset: { x: number; y: number }; // Where this screen's top-left corner sits on the wall
+}
+
+export const isVideoWall = (settings: WallSettings): boolean => settings.wallCols > 1 || settings.wallRows > 1;
+
+// Screens counted row by row from the top left - the first one leads when the wall starts
+export const tileIndex = (settings: WallSettings): number => settings.tileY * settings.wallCols + settings.tileX;
+
+/**
+ * The wall as one canvas, from the size of this screen and its place in the
+ * wall. Every screen must be the same size. The bezels count as wall hidden
+ * behind the frames, so bricks and the zigzag carry on in line across the gaps.
+ */
+export function wallView(tileWidth: number, tileHeight: number, settings: WallSettings): WallView {
+  return {
+    width: tileWidth * settings.wallCols + settings.bezel * (settings.wallCols - 1),
+    height: tileHeight * settings.wallRows + settings.bezel * (settings.wallRows - 1),
+    offset: {
+      x: settings.tileX * (tileWidth + settings.bezel),
+      y: settings.tileY * (tileHeight + settings.bezel),
+    },
+  };
+}
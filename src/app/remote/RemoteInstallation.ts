@@ -0,0 +1,65 @@
+import { STATUS_INTERVAL } from './protocol';
+import type { InstallationState, InstallationStatus, RemoteCommand, RemoteMessage } from './protocol';
+import { RemoteSocket } from './RemoteSocket';
+
+/**
+ * An installation's side of remote control: reports what it shows to the
+ * control page and runs the commands meant for it. Reload is handled here;
+ * everything else goes to onCommand.
+ */
+export class RemoteInstallation {
+  readonly id: string = Math.random().toString(36).slice(2, 10);
+  private socket: RemoteSocket;
+  private name: string;
+  private getState: () => InstallationState;
+  private onCommand: (command: RemoteCommand) => void;
+  private timer: ReturnType<typeof setInterval>;
+  private lastReport: string = ''; // The state last reported, as JSON, so unchanged state isn't sent again
+
+  constructor(relay: string, name: string, getState: () => InstallationState, onCommand: (command: RemoteCommand) => void) {
+    this.name = name;
+    this.getState = getState;
+    this.onCommand = onCommand;
+    this.socket = new RemoteSocket(relay);
+    this.socket.onMessage = message => this.receive(message);
+    this.socket.onConnectionChange = connected => {
+      if (connected) this.report(true);
+    };
+    this.timer = setInterval(() => this.report(true), STATUS_INTERVAL);
+  }
+
+  private receive(message: RemoteMessage) {
+    switch (message.type) {
+      case 'discover':
+        this.report(true);
+        break;
+      case 'command':
+        if (message.target !== null && message.target !== this.id) return;
+        console.log('🛰️ Remote command:', message.command);
+        if (message.command.type === 'reload') {
+          window.location.reload();
+        } else {
+          this.onCommand(message.command);
+        }
+        break;
+    }
+  }
+
+  /**
+   * Tell the control page what the installation shows - only if it changed, unless forced
+   */
+  report(force: boolean = false) {
+    const state = this.getState();
+    const json = JSON.stringify(state);
+    if (!force && json === this.lastReport) return;
+    this.lastReport = json;
+    const status: InstallationStatus = { id: this.id, name: this.name, state };
+    this.socket.send({ type: 'status', status });
+  }
+
+  dispose() {
+    clearInterval(this.timer);
+    this.socket.send({ type: 'leave', id: this.id });
+    this.socket.close();
+  }
+}
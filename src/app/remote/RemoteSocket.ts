@@ -0,0 +1,86 @@
+import { REMOTE_PROTOCOL_VERSION, parseRemoteMessage } from './protocol';
+import type { RemoteMessage } from './protocol';
+
+// Milliseconds before reconnecting to a relay that went away
+const RELAY_RETRY = 2000;
+
+/**
+ * A connection to the remote control relay, for installations and the control
+ * page alike. Keeps reconnecting while the relay is away - messages sent
+ * meanwhile are dropped, and the next status report makes up for them - so a
+ * missing relay never stops an installation.
+ */
+export class RemoteSocket {
+  onMessage: ((message: RemoteMessage) => void) | null = null;
+  onConnectionChange: ((connected: boolean) => void) | null = null;
+  private url: string;
+  private socket: WebSocket | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private connected: boolean = false; // Whether the last attempt got through, so a relay that stays down is only reported once
+  private closed: boolean = false;
+  private versionReported: boolean = false;
+
+  constructor(url: string) {
+    this.url = url;
+    this.connect();
+  }
+
+  private connect() {
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (error) {
+      console.warn(`Can't connect to the remote control relay at ${this.url}:`, error);
+      return;
+    }
+    socket.onopen = () => {
+      this.connected = true;
+      console.log(`🛰️ Connected to the remote control relay at ${this.url}`);
+      this.onConnectionChange?.(true);
+    };
+    socket.onmessage = (event: MessageEvent<string>) => this.receive(event.data);
+    socket.onclose = () => {
+      this.socket = null;
+      if (this.closed) return;
+      if (this.connected || this.retryTimer === null) {
+        console.warn(`Remote control relay at ${this.url} is unreachable, retrying every ${RELAY_RETRY / 1000}s`);
+      }
+      if (this.connected) this.onConnectionChange?.(false);
+      this.connected = false;
+      this.retryTimer = setTimeout(() => this.connect(), RELAY_RETRY);
+    };
+    this.socket = socket;
+  }
+
+  private receive(data: string) {
+    const message = parseRemoteMessage(data);
+    if (message === null) {
+      console.warn('Ignoring a malformed remote control message');
+      return;
+    }
+    if (message.version !== REMOTE_PROTOCOL_VERSION) {
+      if (!this.versionReported) {
+        console.warn(`Ignoring remote control messages of protocol version ${message.version} (this page speaks ${REMOTE_PROTOCOL_VERSION}) - reload the kiosks and the control page after an update`);
+        this.versionReported = true;
+      }
+      return;
+    }
+    this.onMessage?.(message);
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  send(message: RemoteMessage) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ ...message, version: REMOTE_PROTOCOL_VERSION }));
+    }
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.socket?.close();
+  }
+}
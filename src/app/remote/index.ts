@@ -0,0 +1,20 @@
+export {
+  REMOTE_PROTOCOL_VERSION,
+  REMOTE_RELAY_PORT,
+  STATUS_INTERVAL,
+  STATUS_TIMEOUT,
+  parseRemoteMessage,
+  parseRemoteSettings,
+} from './protocol';
+export type {
+  InstallationKind,
+  InstallationState,
+  InstallationStatus,
+  RemoteCommand,
+  RemoteEnvelope,
+  RemoteMessage,
+  RemoteSettings,
+} from './protocol';
+export { RemoteSocket } from './RemoteSocket';
+export { RemoteInstallation } from './RemoteInstallation';
+export { useRemoteControl } from './useRemoteControl';
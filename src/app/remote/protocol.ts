@@ -0,0 +1,94 @@
+// --- Remote control messages ---
+// Installations connect to a relay (scripts/relay.mjs) and report their
+// status; the /control page connects to the same relay, lists them and sends
+// them commands. The relay passes every message on to every other client, so
+// each message says who it is for. Messages travel as JSON and carry the
+// protocol version - a page from another release ignores them rather than
+// misreading them.
+
+// Bump when a message changes shape, so old kiosks and a new control page don't talk past each other
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+export const REMOTE_RELAY_PORT = 8788; // Where `npm run remote-relay` listens
+export const STATUS_INTERVAL = 5000; // Milliseconds between an installation's status reports
+export const STATUS_TIMEOUT = 15000; // Milliseconds without a report before the control page drops an installation
+
+export type InstallationKind = 'proliferation' | 'holdspiral' | 'lens';
+
+// What an installation shows, and what the control page can offer for it
+export type InstallationState =
+  | {
+      installation: 'proliferation';
+      program: string | null;
+      programs: string[];
+      colorMode: string | null;
+      colorModes: { id: string; label: string }[];
+    }
+  | { installation: 'holdspiral'; inside: boolean }
+  | { installation: 'lens'; variation: number; variations: number }; // variation counts from 0
+
+// Installations ignore the commands that aren't theirs, except reload
+export type RemoteCommand =
+  | { type: 'reload' }
+  | { type: 'selectProgram'; program: string } // Proliferation
+  | { type: 'setColorMode'; colorMode: string } // Proliferation
+  | { type: 'setInside'; inside: boolean } // HoldSpiral
+  | { type: 'stepVariation'; step: number }; // Lens: 1 for the next variation, -1 for the previous
+
+export interface InstallationStatus {
+  id: string; // Random per window, like a wall screen's
+  name: string; // The kiosk's ?kiosk= name, or '' if it has none
+  state: InstallationState;
+}
+
+export type RemoteMessage =
+  | { type: 'status'; status: InstallationStatus } // Installation: on connecting, on every change and every STATUS_INTERVAL
+  | { type: 'discover' } // Control page: every installation reports now
+  | { type: 'command'; target: string | null; command: RemoteCommand } // Control page: for one installation id, or null for all
+  | { type: 'leave'; id: string }; // Installation: closing
+
+export type RemoteEnvelope = RemoteMessage & { version: number };
+
+const MESSAGE_TYPES: RemoteMessage['type'][] = ['status', 'discover', 'command', 'leave'];
+
+/**
+ * Read a message from the relay. Returns null for anything that isn't a
+ * message of this protocol version - the caller decides whether to mention it.
+ */
+export function parseRemoteMessage(data: string): RemoteEnvelope | null {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof message !== 'object' || message === null) return null;
+  const { version, type } = message as { version?: unknown; type?: unknown };
+  if (typeof version !== 'number' || !MESSAGE_TYPES.includes(type as RemoteMessage['type'])) return null;
+  return message as RemoteEnvelope;
+}
+
+export interface RemoteSettings {
+  relay: string; // ws:// or wss:// address of the relay, or '' to stay offline
+  name: string; // Kiosk name shown on the control page
+}
+
+/**
+ * The remote settings of a kiosk's URL, e.g. ?remote=ws://10.0.0.2:8788&kiosk=lobby.
+ * Bad values are warned about and left out - the installation then simply
+ * runs without remote control.
+ */
+export function parseRemoteSettings(query: URLSearchParams): RemoteSettings {
+  const settings: RemoteSettings = { relay: '', name: '' };
+  const relay = query.get('remote');
+  if (relay !== null) {
+    if (/^wss?:\/\/[^\s/?#]+/.test(relay)) settings.relay = relay;
+    else console.warn(`⚠️ Ignoring setting: remote must be a ws:// or wss:// address (got "${relay}")`);
+  }
+  const name = query.get('kiosk');
+  if (name !== null) {
+    if (/^[\w-]+$/.test(name)) settings.name = name;
+    else console.warn(`⚠️ Ignoring setting: kiosk must be a name of letters, digits, - and _ (got "${name}")`);
+  }
+  return settings;
+}
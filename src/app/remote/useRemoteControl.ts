@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { parseRemoteSettings } from './protocol';
+import type { InstallationState, RemoteCommand, RemoteSettings } from './protocol';
+import { RemoteInstallation } from './RemoteInstallation';
+
+/**
+ * Put an installation under remote control. Connects only when the page has a
+ * relay - from settings, or else the URL's ?remote= - and reports the state on
+ * every change. Without a relay, or while it is down, the installation runs
+ * exactly as it would on its own.
+ */
+export function useRemoteControl(
+  state: InstallationState,
+  onCommand: (command: RemoteCommand) => void,
+  settings?: RemoteSettings
+) {
+  const stateRef = useRef(state);
+  const commandRef = useRef(onCommand);
+  const clientRef = useRef<RemoteInstallation | null>(null);
+  const relay = settings?.relay;
+  const name = settings?.name;
+
+  useEffect(() => {
+    commandRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    stateRef.current = state;
+    clientRef.current?.report();
+  }, [state]);
+
+  useEffect(() => {
+    const remote = relay !== undefined && name !== undefined
+      ? { relay, name }
+      : parseRemoteSettings(new URLSearchParams(window.location.search));
+    if (!remote.relay) return;
+
+    const client = new RemoteInstallation(remote.relay, remote.name, () => stateRef.current, command => commandRef.current(command));
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, [relay, name]);
+}